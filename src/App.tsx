@@ -5,19 +5,29 @@
 import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
 import { AnalyticsPage } from './pages/AnalyticsPage';
 import { UpsetScatterPage } from './pages/UpsetScatterPage';
+import { BacktestPage } from './pages/BacktestPage';
+import { CalibrationPage } from './pages/CalibrationPage';
 import { HeadToHeadPage } from './pages/HeadToHeadPage';
 import { PointsTimelinePage } from './pages/PointsTimelinePage';
 import { BracketPage } from './pages/BracketPage';
+import { PlayerPage } from './pages/PlayerPage';
+import { TournamentPage } from './pages/TournamentPage';
+import { NationsPage } from './pages/NationsPage';
+import { StatusFilter } from './components/filters/StatusFilter';
+import { TourSwitcher } from './components/filters/TourSwitcher';
 import { useStore } from './state/store';
 
 function AppContent() {
   const location = useLocation();
-  const { clearFilters } = useStore();
+  const { tour, clearFilters } = useStore();
   
   return (
     <div className="app">
       <header className="app-header">
-        <h1>ATP 2025 Match Analytics</h1>
+        <div className="app-title">
+          <h1>{tour} Match Analytics</h1>
+          <TourSwitcher />
+        </div>
         <nav className="app-nav">
           <Link 
             to="/" 
@@ -31,6 +41,18 @@ function AppContent() {
           >
             Upset Scatter Plot
           </Link>
+          <Link 
+            to="/backtest" 
+            className={location.pathname === '/backtest' ? 'nav-link active' : 'nav-link'}
+          >
+            Betting Backtest
+          </Link>
+          <Link 
+            to="/calibration" 
+            className={location.pathname === '/calibration' ? 'nav-link active' : 'nav-link'}
+          >
+            Model Calibration
+          </Link>
           <Link 
             to="/head-to-head" 
             className={location.pathname === '/head-to-head' ? 'nav-link active' : 'nav-link'}
@@ -49,8 +71,15 @@ function AppContent() {
           >
             Tournament Brackets
           </Link>
+          <Link 
+            to="/nations" 
+            className={location.pathname === '/nations' ? 'nav-link active' : 'nav-link'}
+          >
+            Nations
+          </Link>
         </nav>
         <div className="header-actions">
+          <StatusFilter />
           <button onClick={clearFilters} className="clear-button">
             Clear Filters
           </button>
@@ -61,9 +90,14 @@ function AppContent() {
         <Routes>
           <Route path="/" element={<AnalyticsPage />} />
           <Route path="/upset-scatter" element={<UpsetScatterPage />} />
+          <Route path="/backtest" element={<BacktestPage />} />
+          <Route path="/calibration" element={<CalibrationPage />} />
           <Route path="/head-to-head" element={<HeadToHeadPage />} />
           <Route path="/points-timeline" element={<PointsTimelinePage />} />
           <Route path="/brackets" element={<BracketPage />} />
+          <Route path="/nations" element={<NationsPage />} />
+          <Route path="/player/:id" element={<PlayerPage />} />
+          <Route path="/tournament/:eventId" element={<TournamentPage />} />
         </Routes>
       </main>
     </div>
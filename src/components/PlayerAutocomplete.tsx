@@ -3,11 +3,8 @@
  */
 
 import { useState, useRef, useEffect } from 'react';
-
-interface Player {
-  id: string;
-  name: string;
-}
+import { formatPlayerIdentity, playerMatchesSearch } from '../utils/playerDetails';
+import type { Player } from '../types';
 
 interface PlayerAutocompleteProps {
   players: Player[];
@@ -32,10 +29,10 @@ export function PlayerAutocomplete({
     ? players.find(p => p.id === selectedPlayer)?.name || ''
     : '';
   
-  // Filter players based on search term
-  const filteredPlayers = players.filter(player =>
-    player.name.toLowerCase().includes(searchTerm.toLowerCase())
-  ).slice(0, 10); // Limit to 10 results
+  // Filter players based on search term (other spellings and full names match too)
+  const filteredPlayers = players
+    .filter(player => playerMatchesSearch(player, searchTerm))
+    .slice(0, 10); // Limit to 10 results
   
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -135,6 +132,9 @@ export function PlayerAutocomplete({
               onMouseEnter={() => setHighlightedIndex(index)}
             >
               {player.name}
+              {formatPlayerIdentity(player) && (
+                <span className="player-option-detail">{formatPlayerIdentity(player)}</span>
+              )}
             </button>
           ))}
         </div>
@@ -0,0 +1,23 @@
+/**
+ * Player Link Component
+ * Links a player name to their profile page
+ */
+
+import { Link } from 'react-router-dom';
+
+export function playerPath(playerId: string): string {
+  return `/player/${encodeURIComponent(playerId)}`;
+}
+
+interface PlayerLinkProps {
+  playerId: string;
+  name?: string;
+}
+
+export function PlayerLink({ playerId, name }: PlayerLinkProps) {
+  return (
+    <Link to={playerPath(playerId)} className="player-link">
+      {name || 'Unknown'}
+    </Link>
+  );
+}
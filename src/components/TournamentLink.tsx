@@ -0,0 +1,29 @@
+/**
+ * Tournament Link Component
+ * Links a tournament name to its history page
+ */
+
+import { Link } from 'react-router-dom';
+import { getTournamentDisplayName } from '../utils/tournamentNames';
+import type { Tournament } from '../types';
+
+export function tournamentPath(tournament: Tournament): string {
+  return `/tournament/${encodeURIComponent(tournament.eventId)}`;
+}
+
+export function bracketPath(tournamentId: string): string {
+  return `/brackets?tournament=${encodeURIComponent(tournamentId)}`;
+}
+
+interface TournamentLinkProps {
+  tournament: Tournament | undefined;
+}
+
+export function TournamentLink({ tournament }: TournamentLinkProps) {
+  if (!tournament) return <>{getTournamentDisplayName(tournament)}</>;
+  return (
+    <Link to={tournamentPath(tournament)} className="tournament-link">
+      {getTournamentDisplayName(tournament)}
+    </Link>
+  );
+}
@@ -4,6 +4,8 @@
 
 import { useState, useMemo } from 'react';
 import { useStore } from '../../state/store';
+import { PlayerLink } from '../PlayerLink';
+import { formatPlayerIdentity, playerMatchesSearch } from '../../utils/playerDetails';
 import type { Player } from '../../types';
 
 interface PlayerFilterProps {
@@ -16,9 +18,8 @@ export function PlayerFilter({ players }: PlayerFilterProps) {
   
   const filteredPlayers = useMemo(() => {
     if (!searchTerm) return [];
-    const term = searchTerm.toLowerCase();
     return players
-      .filter(p => p.name.toLowerCase().includes(term))
+      .filter(p => playerMatchesSearch(p, searchTerm))
       .slice(0, 10); // Limit to 10 results
   }, [players, searchTerm]);
   
@@ -49,6 +50,9 @@ export function PlayerFilter({ players }: PlayerFilterProps) {
               disabled={!playerIds.includes(player.id) && playerIds.length >= 3}
             >
               {player.name}
+              {formatPlayerIdentity(player) && (
+                <span className="player-option-detail">{formatPlayerIdentity(player)}</span>
+              )}
             </button>
           ))}
         </div>
@@ -57,7 +61,7 @@ export function PlayerFilter({ players }: PlayerFilterProps) {
         <div className="pinned-players">
           {pinnedPlayers.map(player => (
             <span key={player.id} className="pinned-player">
-              {player.name}
+              <PlayerLink playerId={player.id} name={player.name} />
               <button
                 className="pinned-player-remove"
                 onClick={() => togglePlayer(player.id)}
@@ -1,14 +1,20 @@
 /**
  * Series filter component
+ * Offers the series found in the current tour's tournaments
  */
 
+import { useMemo } from 'react';
 import { useStore } from '../../state/store';
-import type { Series } from '../../types';
+import { seriesInUse } from '../../utils/series';
+import type { Tournament } from '../../types';
 
-const series: Series[] = ['Grand Slam', 'Masters', 'ATP500', 'ATP250'];
+interface SeriesFilterProps {
+  tournaments: Tournament[];
+}
 
-export function SeriesFilter() {
+export function SeriesFilter({ tournaments }: SeriesFilterProps) {
   const { series: selectedSeries, setSeries } = useStore();
+  const series = useMemo(() => seriesInUse(tournaments), [tournaments]);
   
   return (
     <div className="filter-group">
@@ -0,0 +1,21 @@
+/**
+ * Match status filter component
+ * Global toggle to hide retirements, walkovers and awarded matches
+ */
+
+import { useStore } from '../../state/store';
+
+export function StatusFilter() {
+  const { completedOnly, setCompletedOnly } = useStore();
+
+  return (
+    <label className="status-toggle">
+      <input
+        type="checkbox"
+        checked={completedOnly}
+        onChange={e => setCompletedOnly(e.target.checked)}
+      />
+      Completed matches only
+    </label>
+  );
+}
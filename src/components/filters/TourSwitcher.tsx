@@ -0,0 +1,26 @@
+/**
+ * Tour switcher component
+ * Scopes every page to ATP or WTA data
+ */
+
+import { useStore } from '../../state/store';
+import { TOURS } from '../../utils/tour';
+
+export function TourSwitcher() {
+  const { tour: selectedTour, setTour } = useStore();
+
+  return (
+    <div className="tour-switcher" role="group" aria-label="Tour">
+      {TOURS.map(tour => (
+        <button
+          key={tour}
+          className={`tour-button ${selectedTour === tour ? 'active' : ''}`}
+          onClick={() => setTour(tour)}
+          aria-pressed={selectedTour === tour}
+        >
+          {tour}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Backtest ROI Chart
+ * Cumulative ROI curve per staking strategy, with a summary table
+ */
+
+import { useEffect, useRef } from 'react';
+import { select } from 'd3-selection';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { scaleTime, scaleLinear } from 'd3-scale';
+import { line } from 'd3-shape';
+import { schemeCategory10 } from 'd3-scale-chromatic';
+import { formatDate, formatDecimal, formatPercent, parseDate } from '../../utils/d3/formatters';
+import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
+import type { BacktestResult, BetRecord } from '../../utils/backtest';
+
+interface Props {
+  results: BacktestResult[];
+}
+
+export function BacktestRoiChart({ results }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const allBets = results.flatMap(r => r.bets);
+    if (allBets.length === 0) {
+      svg.append('text')
+        .attr('x', 400)
+        .attr('y', 200)
+        .attr('text-anchor', 'middle')
+        .attr('fill', '#666')
+        .style('font-size', '16px')
+        .text('No bets match the current filters');
+      return;
+    }
+
+    const margin = { top: 20, right: 20, bottom: 60, left: 70 };
+    const width = 800 - margin.left - margin.right;
+    const height = 400 - margin.top - margin.bottom;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const toDate = (bet: BetRecord) => parseDate(bet.date) ?? new Date(bet.date);
+    const dates = allBets.map(b => toDate(b).getTime());
+    const rois = allBets.map(b => b.cumulativeRoi);
+
+    const xScale = scaleTime()
+      .domain([new Date(Math.min(...dates)), new Date(Math.max(...dates))])
+      .range([0, width])
+      .nice();
+
+    const yScale = scaleLinear()
+      .domain([Math.min(0, ...rois), Math.max(0, ...rois)])
+      .range([height, 0])
+      .nice();
+
+    // Break-even line
+    g.append('line')
+      .attr('x1', 0)
+      .attr('x2', width)
+      .attr('y1', yScale(0))
+      .attr('y2', yScale(0))
+      .attr('stroke', '#666')
+      .attr('stroke-dasharray', '4,4');
+
+    const lineGenerator = line<BetRecord>()
+      .x(d => xScale(toDate(d)))
+      .y(d => yScale(d.cumulativeRoi));
+
+    results.forEach((result, i) => {
+      if (result.bets.length === 0) return;
+      const color = schemeCategory10[i % schemeCategory10.length];
+
+      g.append('path')
+        .datum(result.bets)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 2)
+        .attr('d', lineGenerator);
+
+      // Wide invisible path for hovering
+      g.append('path')
+        .datum(result.bets)
+        .attr('fill', 'none')
+        .attr('stroke', 'transparent')
+        .attr('stroke-width', 10)
+        .attr('d', lineGenerator)
+        .style('cursor', 'pointer')
+        .on('mouseover', function (event) {
+          showTooltip(
+            {
+              title: result.strategy.name,
+              content: [
+                `Bets: ${result.bets.length}`,
+                `ROI: ${formatPercent(result.roi)}`,
+                `Profit: ${formatDecimal(result.profit)} units`
+              ]
+            },
+            event
+          );
+        })
+        .on('mousemove', moveTooltip)
+        .on('mouseout', hideTooltip);
+    });
+
+    // Axes
+    g.append('g')
+      .attr('transform', `translate(0,${height})`)
+      .call(axisBottom(xScale).tickFormat(d => formatDate(d as Date)))
+      .selectAll('text')
+      .attr('transform', 'rotate(-45)')
+      .style('text-anchor', 'end');
+
+    g.append('g')
+      .call(axisLeft(yScale).tickFormat(formatPercent));
+
+    g.append('text')
+      .attr('transform', 'rotate(-90)')
+      .attr('y', -55)
+      .attr('x', -height / 2)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text('Cumulative ROI');
+
+    // Legend
+    const legend = g.append('g').attr('transform', `translate(10, 10)`);
+    results.forEach((result, i) => {
+      const row = legend.append('g').attr('transform', `translate(0, ${i * 20})`);
+      row.append('rect')
+        .attr('width', 15)
+        .attr('height', 3)
+        .attr('y', 6)
+        .attr('fill', schemeCategory10[i % schemeCategory10.length]);
+      row.append('text')
+        .attr('x', 20)
+        .attr('y', 12)
+        .attr('font-size', '12px')
+        .text(result.strategy.name);
+    });
+  }, [results]);
+
+  return (
+    <div className="chart-container">
+      <h3>Cumulative ROI by Strategy</h3>
+      <svg ref={svgRef} width={800} height={400}></svg>
+      <div className="table-wrapper">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>Strategy</th>
+              <th>Bets</th>
+              <th>Hit Rate</th>
+              <th>Profit (units)</th>
+              <th>ROI</th>
+              <th>Max Drawdown (units)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr key={result.strategy.id} title={result.strategy.description}>
+                <td>{result.strategy.name}</td>
+                <td>{result.bets.length}</td>
+                <td>{result.bets.length > 0 ? formatPercent(result.hitRate) : '-'}</td>
+                <td>{formatDecimal(result.profit)}</td>
+                <td>{result.bets.length > 0 ? formatPercent(result.roi) : '-'}</td>
+                <td>{formatDecimal(result.maxDrawdown)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
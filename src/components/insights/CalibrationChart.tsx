@@ -0,0 +1,195 @@
+/**
+ * Calibration Chart
+ * Reliability diagram (predicted vs. actual win rate) with Brier and log-loss per forecaster
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { select } from 'd3-selection';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { scaleLinear, scaleSqrt } from 'd3-scale';
+import { line } from 'd3-shape';
+import { schemeCategory10 } from 'd3-scale-chromatic';
+import { format } from 'd3-format';
+import { formatPercent, formatNumber } from '../../utils/d3/formatters';
+import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
+import { calibrationBins, scoreForecasts, type CalibrationBin, type ProbabilitySample } from '../../utils/calibration';
+
+const formatScore = format('.4f');
+
+export interface ForecastSeries {
+  id: string;
+  label: string;
+  samples: ProbabilitySample[];
+}
+
+interface Props {
+  series: ForecastSeries[];
+  binCount?: number;
+}
+
+export function CalibrationChart({ series, binCount = 10 }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const summaries = useMemo(
+    () => series.map(s => ({
+      ...s,
+      bins: calibrationBins(s.samples, binCount),
+      score: scoreForecasts(s.samples)
+    })),
+    [series, binCount]
+  );
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    if (summaries.every(s => s.samples.length === 0)) {
+      svg.append('text')
+        .attr('x', 300)
+        .attr('y', 250)
+        .attr('text-anchor', 'middle')
+        .attr('fill', '#666')
+        .style('font-size', '16px')
+        .text('No predictions match the current filters');
+      return;
+    }
+
+    const margin = { top: 20, right: 20, bottom: 60, left: 70 };
+    const width = 600 - margin.left - margin.right;
+    const height = 500 - margin.top - margin.bottom;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const xScale = scaleLinear().domain([0, 1]).range([0, width]);
+    const yScale = scaleLinear().domain([0, 1]).range([height, 0]);
+
+    const maxCount = Math.max(...summaries.flatMap(s => s.bins.map(b => b.count)), 1);
+    const radiusScale = scaleSqrt().domain([0, maxCount]).range([2, 12]);
+
+    // Perfect calibration diagonal
+    g.append('line')
+      .attr('x1', xScale(0))
+      .attr('y1', yScale(0))
+      .attr('x2', xScale(1))
+      .attr('y2', yScale(1))
+      .attr('stroke', '#666')
+      .attr('stroke-dasharray', '4,4');
+
+    const lineGenerator = line<CalibrationBin>()
+      .x(d => xScale(d.meanPredicted))
+      .y(d => yScale(d.actualRate));
+
+    summaries.forEach((summary, i) => {
+      const color = schemeCategory10[i % schemeCategory10.length];
+
+      g.append('path')
+        .datum(summary.bins)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 2)
+        .attr('d', lineGenerator);
+
+      g.selectAll(`.bin-${summary.id}`)
+        .data(summary.bins)
+        .enter()
+        .append('circle')
+        .attr('class', `bin-${summary.id}`)
+        .attr('cx', d => xScale(d.meanPredicted))
+        .attr('cy', d => yScale(d.actualRate))
+        .attr('r', d => radiusScale(d.count))
+        .attr('fill', color)
+        .attr('fill-opacity', 0.7)
+        .attr('stroke', '#fff')
+        .style('cursor', 'pointer')
+        .on('mouseover', function (event, d) {
+          showTooltip(
+            {
+              title: `${summary.label}: ${formatPercent(d.lower)} – ${formatPercent(d.upper)}`,
+              content: [
+                `Predictions: ${formatNumber(d.count)}`,
+                `Mean predicted: ${formatPercent(d.meanPredicted)}`,
+                `Actual win rate: ${formatPercent(d.actualRate)}`
+              ]
+            },
+            event
+          );
+        })
+        .on('mousemove', moveTooltip)
+        .on('mouseout', hideTooltip);
+    });
+
+    // Axes
+    g.append('g')
+      .attr('transform', `translate(0,${height})`)
+      .call(axisBottom(xScale).tickFormat(formatPercent));
+
+    g.append('g')
+      .call(axisLeft(yScale).tickFormat(formatPercent));
+
+    g.append('text')
+      .attr('x', width / 2)
+      .attr('y', height + 45)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text('Predicted Win Probability');
+
+    g.append('text')
+      .attr('transform', 'rotate(-90)')
+      .attr('y', -55)
+      .attr('x', -height / 2)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text('Actual Win Rate');
+
+    // Legend
+    const legend = g.append('g').attr('transform', `translate(10, 10)`);
+    summaries.forEach((summary, i) => {
+      const row = legend.append('g').attr('transform', `translate(0, ${i * 20})`);
+      row.append('rect')
+        .attr('width', 15)
+        .attr('height', 3)
+        .attr('y', 6)
+        .attr('fill', schemeCategory10[i % schemeCategory10.length]);
+      row.append('text')
+        .attr('x', 20)
+        .attr('y', 12)
+        .attr('font-size', '12px')
+        .text(summary.label);
+    });
+  }, [summaries]);
+
+  return (
+    <div className="chart-container">
+      <h3>Reliability Diagram</h3>
+      <svg ref={svgRef} width={600} height={500}></svg>
+      <div className="table-wrapper">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>Forecast</th>
+              <th>Matches</th>
+              <th>Brier Score</th>
+              <th>Log Loss</th>
+              <th>Accuracy</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={summary.id}>
+                <td>{summary.label}</td>
+                <td>{formatNumber(summary.score.count)}</td>
+                <td>{summary.score.count > 0 ? formatScore(summary.score.brier) : '-'}</td>
+                <td>{summary.score.count > 0 ? formatScore(summary.score.logLoss) : '-'}</td>
+                <td>{summary.score.count > 0 ? formatPercent(summary.score.accuracy) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
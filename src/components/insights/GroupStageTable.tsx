@@ -0,0 +1,60 @@
+/**
+ * Group Stage Table
+ * Round-robin standings and results of a season final, one table per group.
+ * Players who went through to the knockout phase are marked "Q".
+ */
+
+import { PlayerLink } from '../PlayerLink';
+import type { GroupStage } from '../../types';
+
+interface GroupStageTableProps {
+  groupStage: GroupStage;
+}
+
+export function GroupStageTable({ groupStage }: GroupStageTableProps) {
+  return (
+    <div className="group-stage">
+      {groupStage.groups.map(group => (
+        <div key={group.name} className="chart-container group-table">
+          <h3>{group.name}</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Player</th>
+                  <th>W-L</th>
+                  <th>Sets</th>
+                  <th>Games</th>
+                </tr>
+              </thead>
+              <tbody>
+                {group.standings.map((standing, index) => (
+                  <tr key={standing.playerId} className={standing.qualified ? 'qualified' : undefined}>
+                    <td>{index + 1}</td>
+                    <td>
+                      <PlayerLink playerId={standing.playerId} name={standing.playerName} />
+                      {standing.qualified && <span className="qualified-badge" title="Qualified">Q</span>}
+                    </td>
+                    <td>{standing.wins}-{standing.losses}</td>
+                    <td>{standing.setsWon}-{standing.setsLost}</td>
+                    <td>{standing.gamesWon}-{standing.gamesLost}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <ul className="group-results">
+            {group.matches.map(match => (
+              <li key={match.matchId}>
+                <PlayerLink playerId={match.winnerId} name={match.winnerName} /> d.{' '}
+                <PlayerLink playerId={match.loserId} name={match.loserName} /> {match.score}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
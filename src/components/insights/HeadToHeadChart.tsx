@@ -4,11 +4,14 @@
  */
 
 import { useEffect, useRef, useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { select } from 'd3-selection';
 import { axisBottom, axisLeft } from 'd3-axis';
 import { scaleLinear, scaleBand } from 'd3-scale';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
 import { PlayerAutocomplete } from '../PlayerAutocomplete';
+import { formatPlayerDetails } from '../../utils/playerDetails';
+import { PlayerLink, playerPath } from '../PlayerLink';
 import type { Match, Tournament, Player } from '../../types';
 
 // Simple opponent autocomplete that clears after selection
@@ -104,6 +107,7 @@ export function HeadToHeadChart({
   players = [],
 }: HeadToHeadChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const navigate = useNavigate();
   const [primaryPlayerId, setPrimaryPlayerId] = useState<string | null>(null);
   const [selectedOpponentIds, setSelectedOpponentIds] = useState<string[]>([]);
   const [minRank, setMinRank] = useState<number>(1);
@@ -254,6 +258,7 @@ export function HeadToHeadChart({
       displayedRecords.forEach((record) => {
         const y = yScale(record.opponentName);
         if (y === undefined) return;
+        const opponentDetails = formatPlayerDetails(playersMap.get(record.opponentId));
 
         const barHeight = yScale.bandwidth();
 
@@ -314,6 +319,7 @@ export function HeadToHeadChart({
                 content: [
                   `${record.wins} Wins, ${record.losses} Losses`,
                   `${record.total} Total Matches`,
+                  ...(opponentDetails ? [opponentDetails] : []),
                 ],
               },
               event
@@ -323,11 +329,16 @@ export function HeadToHeadChart({
           .on('mouseout', hideTooltip);
       });
 
-      // Y-axis (opponent names)
+      // Y-axis (opponent names link to their profiles)
       g.append('g')
         .call(axisLeft(yScale))
-        .selectAll('text')
-        .style('font-size', '12px');
+        .selectAll<SVGTextElement, string>('text')
+        .style('font-size', '12px')
+        .style('cursor', 'pointer')
+        .on('click', (_, name) => {
+          const record = displayedRecords.find((r) => r.opponentName === name);
+          if (record) navigate(playerPath(record.opponentId));
+        });
 
       // X-axis
       g.append('g')
@@ -415,7 +426,7 @@ export function HeadToHeadChart({
                   return (
                     <div key={opponentId} className="opponent-tag">
                       <span>
-                        {opponent?.name || 'Unknown'}
+                        <PlayerLink playerId={opponentId} name={opponent?.name} />
                         {record && ` (${record.wins}-${record.losses})`}
                       </span>
                       <button
@@ -0,0 +1,123 @@
+/**
+ * Home Advantage Chart
+ * Home players' win rate against foreign opponents per host country, with the
+ * rate Elo expected marked on each bar
+ */
+
+import { useEffect, useMemo, useRef } from 'react';
+import { select } from 'd3-selection';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { scaleBand, scaleLinear } from 'd3-scale';
+import { formatPercent } from '../../utils/d3/formatters';
+import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
+import type { HomeAdvantageRecord } from '../../utils/nationality';
+
+// Fewer home matches than this are too noisy to chart
+const MIN_MATCHES = 10;
+
+interface Props {
+  overall: HomeAdvantageRecord;
+  byCountry: HomeAdvantageRecord[];
+  missingCountry: number;
+}
+
+export function HomeAdvantageChart({ overall, byCountry, missingCountry }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const charted = useMemo(
+    () => [overall, ...byCountry.filter(r => r.matches >= MIN_MATCHES)],
+    [overall, byCountry]
+  );
+  const height = 60 + charted.length * 28;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (overall.matches === 0) return;
+
+    const margin = { top: 20, right: 30, bottom: 40, left: 60 };
+    const width = 800 - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const xScale = scaleLinear().domain([0, 1]).range([0, width]);
+    const yScale = scaleBand()
+      .domain(charted.map(r => r.country))
+      .range([0, innerHeight])
+      .padding(0.25);
+
+    charted.forEach(record => {
+      const y = yScale(record.country) ?? 0;
+      const winRate = record.wins / record.matches;
+      const expectedRate = record.expectedWins / record.matches;
+
+      g.append('rect')
+        .attr('x', 0)
+        .attr('y', y)
+        .attr('width', xScale(winRate))
+        .attr('height', yScale.bandwidth())
+        .attr('fill', winRate >= expectedRate ? '#4caf50' : '#e91e63')
+        .attr('opacity', record === overall ? 0.9 : 0.7)
+        .on('mouseover', event => {
+          showTooltip(
+            {
+              title: record === overall ? 'All host countries' : record.country,
+              content: [
+                `Home W-L: ${record.wins}-${record.matches - record.wins}`,
+                `Win rate: ${formatPercent(winRate)}`,
+                `Elo expected: ${formatPercent(expectedRate)}`,
+                `Wins above expectation: ${(record.wins - record.expectedWins).toFixed(1)}`
+              ]
+            },
+            event
+          );
+        })
+        .on('mousemove', moveTooltip)
+        .on('mouseout', hideTooltip);
+
+      // Expected rate marker
+      g.append('line')
+        .attr('x1', xScale(expectedRate))
+        .attr('x2', xScale(expectedRate))
+        .attr('y1', y - 3)
+        .attr('y2', y + yScale.bandwidth() + 3)
+        .attr('stroke', '#333')
+        .attr('stroke-width', 2)
+        .attr('pointer-events', 'none');
+    });
+
+    g.append('g')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(axisBottom(xScale).tickFormat(formatPercent));
+
+    g.append('g').call(axisLeft(yScale));
+
+    g.append('text')
+      .attr('x', width / 2)
+      .attr('y', innerHeight + 35)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text('Home win rate (line: Elo expectation)');
+  }, [overall, charted, height]);
+
+  return (
+    <div className="chart-container">
+      <h3>Home Advantage</h3>
+      {overall.matches === 0 ? (
+        <p>No home matches: needs player countries (country lookup or roster file) and host countries (event registry).</p>
+      ) : (
+        <svg ref={svgRef} width={800} height={height}></svg>
+      )}
+      {missingCountry > 0 && (
+        <p className="edition-note">
+          {missingCountry} matches at host countries left out because a player's country is unknown
+          (the country lookup covers top-100 players, so mostly wildcards and qualifiers)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * Match Predictor Panel
+ * Projected win probability and set score distribution for any pairing
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { select } from 'd3-selection';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { scaleBand, scaleLinear } from 'd3-scale';
+import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
+import { formatPercent, formatNumber } from '../../utils/d3/formatters';
+import { PlayerAutocomplete } from '../PlayerAutocomplete';
+import { PlayerLink } from '../PlayerLink';
+import { createMatchPredictor, defaultBestOf, setScoreDistribution, type PlayerState } from '../../utils/prediction';
+import { seriesInUse } from '../../utils/series';
+import { useStore } from '../../state/store';
+import type { Match, Tournament, Player, Surface, Series } from '../../types';
+
+const surfaces: Surface[] = ['Hard', 'Clay', 'Grass'];
+
+const PLAYER_A_COLOR = '#4caf50';
+const PLAYER_B_COLOR = '#e91e63';
+
+interface Props {
+  matches: Match[];
+  tournaments: Tournament[];
+  players: Player[];
+  playerAId: string | null;
+  playerBId: string | null;
+  onPlayerAChange: (playerId: string | null) => void;
+  onPlayerBChange: (playerId: string | null) => void;
+}
+
+export function MatchPredictorPanel({
+  matches,
+  tournaments,
+  players,
+  playerAId,
+  playerBId,
+  onPlayerAChange,
+  onPlayerBChange
+}: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [surface, setSurface] = useState<Surface>('Hard');
+  const { tour } = useStore();
+  // Offer the series of the loaded tour, starting from the lowest level
+  const seriesOptions = useMemo(() => seriesInUse(tournaments), [tournaments]);
+  const [series, setSeries] = useState<Series>(() => seriesOptions[seriesOptions.length - 1] ?? 'ATP250');
+  const [bestOf, setBestOf] = useState<3 | 5>(3);
+
+  // Predict as of the day after the latest match in the data
+  const latestDate = useMemo(() => {
+    const dates = matches.map(m => m.date).sort();
+    const last = dates[dates.length - 1];
+    if (!last) return '';
+    const next = new Date(last);
+    next.setDate(next.getDate() + 1);
+    return next.toISOString().slice(0, 10);
+  }, [matches]);
+  const [asOfDate, setAsOfDate] = useState('');
+  const date = asOfDate || latestDate;
+
+  const predictor = useMemo(() => createMatchPredictor(matches, tournaments), [matches, tournaments]);
+  const playersMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+
+  const prediction = useMemo(() => {
+    if (!playerAId || !playerBId || playerAId === playerBId || !date) return null;
+    return predictor.predict({ playerAId, playerBId, surface, series, tour, date, bestOf });
+  }, [predictor, playerAId, playerBId, surface, series, tour, date, bestOf]);
+
+  const setScores = useMemo(
+    () => (prediction ? setScoreDistribution(prediction.probability, prediction.bestOf) : []),
+    [prediction]
+  );
+
+  const stateA = useMemo(() => (playerAId && date ? predictor.playerState(playerAId, date) : null), [predictor, playerAId, date]);
+  const stateB = useMemo(() => (playerBId && date ? predictor.playerState(playerBId, date) : null), [predictor, playerBId, date]);
+
+  const nameA = playerAId ? playersMap.get(playerAId)?.name || 'Player A' : 'Player A';
+  const nameB = playerBId ? playersMap.get(playerBId)?.name || 'Player B' : 'Player B';
+
+  const handleSeriesChange = (value: Series) => {
+    setSeries(value);
+    setBestOf(defaultBestOf(value, tour));
+  };
+
+  // Render set score distribution
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    if (setScores.length === 0) {
+      svg.append('text')
+        .attr('x', 250)
+        .attr('y', 130)
+        .attr('text-anchor', 'middle')
+        .attr('fill', '#666')
+        .style('font-size', '14px')
+        .text('Pick two different players to see a projection');
+      return;
+    }
+
+    const margin = { top: 20, right: 20, bottom: 40, left: 50 };
+    const width = 500 - margin.left - margin.right;
+    const height = 260 - margin.top - margin.bottom;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const labels = setScores.map(o => `${o.aSets}-${o.bSets}`);
+    const xScale = scaleBand<string>().domain(labels).range([0, width]).padding(0.2);
+    const yScale = scaleLinear()
+      .domain([0, Math.max(...setScores.map(o => o.probability))])
+      .range([height, 0])
+      .nice();
+
+    g.selectAll('.set-score-bar')
+      .data(setScores)
+      .enter()
+      .append('rect')
+      .attr('class', 'set-score-bar')
+      .attr('x', d => xScale(`${d.aSets}-${d.bSets}`)!)
+      .attr('y', d => yScale(d.probability))
+      .attr('width', xScale.bandwidth())
+      .attr('height', d => height - yScale(d.probability))
+      .attr('fill', d => (d.aSets > d.bSets ? PLAYER_A_COLOR : PLAYER_B_COLOR))
+      .style('cursor', 'pointer')
+      .on('mouseover', function (event, d) {
+        const winner = d.aSets > d.bSets ? nameA : nameB;
+        showTooltip(
+          {
+            title: `${winner} wins ${Math.max(d.aSets, d.bSets)}-${Math.min(d.aSets, d.bSets)}`,
+            content: [`Probability: ${formatPercent(d.probability)}`]
+          },
+          event
+        );
+      })
+      .on('mousemove', moveTooltip)
+      .on('mouseout', hideTooltip);
+
+    g.append('g')
+      .attr('transform', `translate(0,${height})`)
+      .call(axisBottom(xScale));
+
+    g.append('g')
+      .call(axisLeft(yScale).ticks(5).tickFormat(formatPercent));
+
+    g.append('text')
+      .attr('x', width / 2)
+      .attr('y', height + 35)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text(`Sets (${nameA} first)`);
+  }, [setScores, nameA, nameB]);
+
+  const formatForm = (state: PlayerState | null) => {
+    if (!state || state.recent.length === 0) return '-';
+    const wins = state.recent.filter(Boolean).length;
+    return `${wins}-${state.recent.length - wins}`;
+  };
+
+  const formatSurfaceRecord = (state: PlayerState | null) => {
+    const record = state?.surfaces[surface];
+    if (!record || record.total === 0) return '-';
+    return `${record.wins}-${record.total - record.wins} (${formatPercent(record.wins / record.total)})`;
+  };
+
+  return (
+    <div className="chart-container match-predictor">
+      <h3>Match Predictor</h3>
+
+      <div className="h2h-filters">
+        <div className="filter-section">
+          <h4>Players</h4>
+          <div className="filter-control">
+            <PlayerAutocomplete
+              players={players}
+              selectedPlayer={playerAId}
+              onSelect={onPlayerAChange}
+              placeholder="Select player A..."
+            />
+          </div>
+          <div className="filter-control">
+            <PlayerAutocomplete
+              players={players.filter(p => p.id !== playerAId)}
+              selectedPlayer={playerBId}
+              onSelect={onPlayerBChange}
+              placeholder="Select player B..."
+            />
+          </div>
+        </div>
+
+        <div className="filter-section predictor-conditions">
+          <h4>Conditions</h4>
+          <div className="filter-control">
+            <label htmlFor="predict-surface">Surface:</label>
+            <select
+              id="predict-surface"
+              value={surface}
+              onChange={e => setSurface(e.target.value as Surface)}
+              className="filter-select"
+            >
+              {surfaces.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-control">
+            <label htmlFor="predict-series">Series:</label>
+            <select
+              id="predict-series"
+              value={series}
+              onChange={e => handleSeriesChange(e.target.value as Series)}
+              className="filter-select"
+            >
+              {seriesOptions.map(s => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div className="filter-control">
+            <label htmlFor="predict-best-of">Best of:</label>
+            <select
+              id="predict-best-of"
+              value={bestOf}
+              onChange={e => setBestOf(Number(e.target.value) as 3 | 5)}
+              className="filter-select"
+            >
+              <option value={3}>3 sets</option>
+              <option value={5}>5 sets</option>
+            </select>
+          </div>
+          <div className="filter-control">
+            <label htmlFor="predict-date">As of:</label>
+            <input
+              id="predict-date"
+              type="date"
+              value={date}
+              onChange={e => setAsOfDate(e.target.value)}
+              className="filter-input-date"
+            />
+          </div>
+        </div>
+      </div>
+
+      {prediction && (
+        <div className="predictor-result">
+          <div className="predictor-probabilities">
+            <span style={{ color: PLAYER_A_COLOR }}>{nameA} {formatPercent(prediction.probability)}</span>
+            <span style={{ color: PLAYER_B_COLOR }}>{formatPercent(1 - prediction.probability)} {nameB}</span>
+          </div>
+          <div className="predictor-bar">
+            <div
+              style={{ width: `${prediction.probability * 100}%`, backgroundColor: PLAYER_A_COLOR }}
+            />
+            <div
+              style={{ width: `${(1 - prediction.probability) * 100}%`, backgroundColor: PLAYER_B_COLOR }}
+            />
+          </div>
+
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th><PlayerLink playerId={playerAId!} name={nameA} /></th>
+                  <th><PlayerLink playerId={playerBId!} name={nameB} /></th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>Latest Rank</td>
+                  <td>{stateA?.rank ?? '-'}</td>
+                  <td>{stateB?.rank ?? '-'}</td>
+                </tr>
+                <tr>
+                  <td>Ranking Points</td>
+                  <td>{stateA?.points !== undefined ? formatNumber(stateA.points) : '-'}</td>
+                  <td>{stateB?.points !== undefined ? formatNumber(stateB.points) : '-'}</td>
+                </tr>
+                <tr>
+                  <td>Recent Form</td>
+                  <td>{formatForm(stateA)}</td>
+                  <td>{formatForm(stateB)}</td>
+                </tr>
+                <tr>
+                  <td>{surface} Record</td>
+                  <td>{formatSurfaceRecord(stateA)}</td>
+                  <td>{formatSurfaceRecord(stateB)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <h4>Expected Set Score</h4>
+      <svg ref={svgRef} width={500} height={260}></svg>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Nation Tables
+ * National W-L by surface and season, and a leaderboard of countries by
+ * titles with their top-100 presence per season
+ */
+
+import { formatPercent } from '../../utils/d3/formatters';
+import type { NationRecord, NationStanding, WinLoss } from '../../utils/nationality';
+import type { Surface } from '../../types';
+
+const surfaces: Surface[] = ['Hard', 'Clay', 'Grass', 'Carpet'];
+
+function formatWinLoss(record: WinLoss | undefined) {
+  if (!record || record.wins + record.losses === 0) return '-';
+  return (
+    <>
+      {record.wins}-{record.losses}
+      <div className="edition-note">{formatPercent(record.wins / (record.wins + record.losses))}</div>
+    </>
+  );
+}
+
+interface NationRecordsTableProps {
+  records: NationRecord[];
+  years: number[];
+}
+
+export function NationRecordsTable({ records, years }: NationRecordsTableProps) {
+  const surfacesPlayed = surfaces.filter(surface => records.some(r => r.bySurface[surface]));
+
+  return (
+    <div className="chart-container">
+      <h3>National Records</h3>
+      <div className="table-wrapper">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>Country</th>
+              <th>W-L</th>
+              {surfacesPlayed.map(surface => <th key={surface}>{surface}</th>)}
+              {years.map(year => <th key={year}>{year}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {records.map(record => (
+              <tr key={record.country}>
+                <td>{record.country}</td>
+                <td>{formatWinLoss(record)}</td>
+                {surfacesPlayed.map(surface => <td key={surface}>{formatWinLoss(record.bySurface[surface])}</td>)}
+                {years.map(year => <td key={year}>{formatWinLoss(record.byYear[year])}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface NationLeaderboardProps {
+  standings: NationStanding[];
+  years: number[];
+}
+
+export function NationLeaderboard({ standings, years }: NationLeaderboardProps) {
+  return (
+    <div className="chart-container">
+      <h3>Country Leaderboard</h3>
+      <div className="table-wrapper">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Country</th>
+              <th>Titles</th>
+              <th>Finals</th>
+              {years.map(year => <th key={year} title={`Players entered with a top-100 ranking in ${year}`}>Top 100 {year}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map((standing, index) => (
+              <tr key={standing.country}>
+                <td>{index + 1}</td>
+                <td>{standing.country}</td>
+                <td>{standing.titles}</td>
+                <td>{standing.finals}</td>
+                {years.map(year => <td key={year}>{standing.top100ByYear[year] ?? 0}</td>)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
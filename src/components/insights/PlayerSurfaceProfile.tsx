@@ -4,12 +4,14 @@
  */
 
 import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { select } from 'd3-selection';
 import { axisBottom, axisLeft } from 'd3-axis';
 import { scaleBand, scaleLinear, scaleOrdinal } from 'd3-scale';
 import { formatPercent } from '../../utils/d3/formatters';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
 import { useStore } from '../../state/store';
+import { playerPath } from '../PlayerLink';
 import type { Match, Tournament, Surface } from '../../types';
 
 interface Props {
@@ -20,6 +22,7 @@ interface Props {
 
 export function PlayerSurfaceProfile({ matches, tournaments, players }: Props) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const navigate = useNavigate();
   const { playerIds } = useStore();
   
   useEffect(() => {
@@ -176,6 +179,8 @@ export function PlayerSurfaceProfile({ matches, tournaments, players }: Props) {
         .attr('x', 20)
         .attr('y', 12)
         .attr('font-size', '12px')
+        .style('cursor', 'pointer')
+        .on('click', () => navigate(playerPath(playerData.playerId)))
         .text(playerData.playerName);
     });
     
@@ -1,6 +1,7 @@
 /**
  * Points Timeline Chart
- * Multi-line time series chart showing ranking points over time for selected players
+ * Multi-line time series chart showing ranking points over time for selected players,
+ * or match-by-match Elo ratings (overall or per surface) computed in the browser
  */
 
 import { useEffect, useRef, useState, useMemo } from 'react';
@@ -12,20 +13,42 @@ import { schemeCategory10 } from 'd3-scale-chromatic';
 import { timeParse, timeFormat } from 'd3-time-format';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
 import { getTournamentDisplayName } from '../../utils/tournamentNames';
-import type { Match, Tournament, Player, Series } from '../../types';
+import { PlayerLink } from '../PlayerLink';
+import { compareMatchesChronologically } from '../../utils/elo';
+import { SERIES_ORDER, SERIES_TIER, seriesInUse } from '../../utils/series';
+import type { Match, Tournament, Player, Series, Surface, EloPoint } from '../../types';
 
 interface PointsTimelineChartProps {
   matches: Match[];
   tournaments: Tournament[];
   players: Player[];
+  eloHistory: Map<string, EloPoint[]>; // Ratings from every match of the tour, not just the visible ones
 }
 
 interface TimeSeriesPoint {
   date: Date;
-  points: number;
+  value: number; // Ranking points or Elo rating, depending on the metric
   tournament: string;
 }
 
+type TimelineMetric = 'points' | 'elo' | 'surfaceElo';
+
+const metricLabels: Record<TimelineMetric, string> = {
+  points: 'Ranking Points',
+  elo: 'Elo Rating',
+  surfaceElo: 'Surface Elo Rating'
+};
+
+// Color scheme for tournament level markers, by series tier
+const tierColors: Record<number, string> = {
+  1: '#e74c3c',
+  2: '#9b59b6',
+  3: '#3498db',
+  4: '#2ecc71',
+  5: '#f39c12'
+};
+const seriesColor = (series: Series) => tierColors[SERIES_TIER[series]];
+
 // Simple opponent autocomplete for multi-select
 function PlayerMultiSelect({
   players,
@@ -99,24 +122,24 @@ function PlayerMultiSelect({
   );
 }
 
-export function PointsTimelineChart({ matches, tournaments, players }: PointsTimelineChartProps) {
+export function PointsTimelineChart({ matches, tournaments, players, eloHistory }: PointsTimelineChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
-  const [showTournamentLevels, setShowTournamentLevels] = useState<Record<Series, boolean>>({
-    'Grand Slam': false,
-    'Masters': false,
-    'ATP500': false,
-    'ATP250': false
-  });
+  const [showTournamentLevels, setShowTournamentLevels] = useState<Record<Series, boolean>>(
+    () => Object.fromEntries(SERIES_ORDER.map(series => [series, false])) as Record<Series, boolean>
+  );
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
   const [bulkRankMin, setBulkRankMin] = useState<number>(1);
   const [bulkRankMax, setBulkRankMax] = useState<number>(25);
   const [bulkAddMode, setBulkAddMode] = useState<'current' | 'historical'>('current');
   const [bulkAddMessage, setBulkAddMessage] = useState<string>('');
+  const [metric, setMetric] = useState<TimelineMetric>('points');
+  const [eloSurface, setEloSurface] = useState<Surface>('Hard');
 
   const playersMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
   const tournamentsMap = useMemo(() => new Map(tournaments.map(t => [t.id, t])), [tournaments]);
+  const seriesLevels = useMemo(() => seriesInUse(tournaments), [tournaments]);
 
   const parseDate = timeParse('%Y-%m-%d');
   const formatDate = timeFormat('%Y-%m-%d');
@@ -128,6 +151,8 @@ export function PointsTimelineChart({ matches, tournaments, players }: PointsTim
     return { min: dates[0] || '', max: dates[dates.length - 1] || '' };
   }, [matches]);
 
+  const matchesMap = useMemo(() => new Map(matches.map(m => [m.id, m])), [matches]);
+
   // Transform match data into time series for selected players
   const playerTimeSeries = useMemo(() => {
     if (selectedPlayerIds.length === 0) return [];
@@ -138,46 +163,69 @@ export function PointsTimelineChart({ matches, tournaments, players }: PointsTim
       seriesMap.set(playerId, []);
     });
 
-    // Process matches chronologically
-    const sortedMatches = [...matches].sort((a, b) => a.date.localeCompare(b.date));
-
-    sortedMatches.forEach(match => {
-      const matchDate = parseDate(match.date);
-      if (!matchDate) return;
-
-      // Filter by date range
-      if (fromDate && match.date < fromDate) return;
-      if (toDate && match.date > toDate) return;
-
-      const tournament = tournamentsMap.get(match.tournamentId);
-
-      // Check if winner is selected
-      if (selectedPlayerIds.includes(match.winnerId) && match.wPts !== undefined) {
-        const series = seriesMap.get(match.winnerId)!;
-        series.push({
-          date: matchDate,
-          points: match.wPts,
-          tournament: getTournamentDisplayName(tournament)
+    if (metric !== 'points') {
+      // Ratings after each match the player played; matches hidden by the
+      // status filter drop their point but still count towards the rating
+      selectedPlayerIds.forEach(playerId => {
+        const series = seriesMap.get(playerId)!;
+        (eloHistory.get(playerId) || []).forEach(point => {
+          if (fromDate && point.date < fromDate) return;
+          if (toDate && point.date > toDate) return;
+          if (metric === 'surfaceElo' && point.surface !== eloSurface) return;
+
+          const pointDate = parseDate(point.date);
+          if (!pointDate) return;
+          const match = matchesMap.get(point.matchId);
+          if (!match) return;
+          series.push({
+            date: pointDate,
+            value: metric === 'surfaceElo' ? point.surfaceElo : point.elo,
+            tournament: getTournamentDisplayName(tournamentsMap.get(match.tournamentId))
+          });
         });
-      }
+      });
+    } else {
+      // Process matches chronologically
+      const sortedMatches = [...matches].sort(compareMatchesChronologically);
+
+      sortedMatches.forEach(match => {
+        const matchDate = parseDate(match.date);
+        if (!matchDate) return;
+
+        // Filter by date range
+        if (fromDate && match.date < fromDate) return;
+        if (toDate && match.date > toDate) return;
+
+        const tournament = tournamentsMap.get(match.tournamentId);
+
+        // Check if winner is selected
+        if (selectedPlayerIds.includes(match.winnerId) && match.wPts !== undefined) {
+          const series = seriesMap.get(match.winnerId)!;
+          series.push({
+            date: matchDate,
+            value: match.wPts,
+            tournament: getTournamentDisplayName(tournament)
+          });
+        }
 
-      // Check if loser is selected
-      if (selectedPlayerIds.includes(match.loserId) && match.lPts !== undefined) {
-        const series = seriesMap.get(match.loserId)!;
-        series.push({
-          date: matchDate,
-          points: match.lPts,
-          tournament: getTournamentDisplayName(tournament)
-        });
-      }
-    });
+        // Check if loser is selected
+        if (selectedPlayerIds.includes(match.loserId) && match.lPts !== undefined) {
+          const series = seriesMap.get(match.loserId)!;
+          series.push({
+            date: matchDate,
+            value: match.lPts,
+            tournament: getTournamentDisplayName(tournament)
+          });
+        }
+      });
+    }
 
     // Convert to array and assign colors
     const colorScale = schemeCategory10;
     return selectedPlayerIds.map((playerId, index) => {
       const player = playersMap.get(playerId);
       const data = seriesMap.get(playerId) || [];
-      // Sort by date
+      // Sort by date (stable, so same-day Elo updates keep match order)
       data.sort((a, b) => a.date.getTime() - b.date.getTime());
 
       return {
@@ -187,7 +235,7 @@ export function PointsTimelineChart({ matches, tournaments, players }: PointsTim
         color: colorScale[index % colorScale.length]
       };
     });
-  }, [matches, selectedPlayerIds, playersMap, tournamentsMap, fromDate, toDate, parseDate]);
+  }, [matches, matchesMap, eloHistory, metric, eloSurface, selectedPlayerIds, playersMap, tournamentsMap, fromDate, toDate, parseDate]);
 
   // Get tournament marker dates based on selected levels
   const tournamentMarkerDates = useMemo(() => {
@@ -240,10 +288,10 @@ const handleBulkAddByRank = () => {
     // Current ranking mode: Use most recent ranking for each player
     const playerRanks = new Map<string, number>(); // playerId -> rank
 
-    // Sort matches by date (most recent first)
+    // Sort matches most recent first
     const sortedMatches = [...matches]
       .filter(m => m.date)
-      .sort((a, b) => b.date.localeCompare(a.date));
+      .sort((a, b) => compareMatchesChronologically(b, a));
 
     if (sortedMatches.length === 0) {
         setBulkAddMessage('No valid match dates found');
@@ -354,7 +402,7 @@ useEffect(() => {
       .attr('text-anchor', 'middle')
       .attr('fill', '#666')
       .style('font-size', '16px')
-      .text('Select players to view ranking points over time');
+      .text(`Select players to view ${metricLabels[metric].toLowerCase()} over time`);
     return;
   }
 
@@ -368,7 +416,7 @@ useEffect(() => {
 
   // Determine domains
   const allDates = playerTimeSeries.flatMap(series => series.data.map(d => d.date));
-  const allPoints = playerTimeSeries.flatMap(series => series.data.map(d => d.points));
+  const allPoints = playerTimeSeries.flatMap(series => series.data.map(d => d.value));
 
   if (allDates.length === 0 || allPoints.length === 0) {
     svg.append('text')
@@ -386,6 +434,8 @@ useEffect(() => {
   
   // Find the *true* min/max. Do not add a manual buffer.
   const pointsMin = Math.max(0, Math.min(...allPoints));
+  const valueLabel = metric === 'surfaceElo' ? `${eloSurface} Elo` : metric === 'elo' ? 'Elo' : 'Points';
+  const formatValue = (value: number) => (metric === 'points' ? String(value) : value.toFixed(0));
   const pointsMax = Math.max(...allPoints);
 
   // Scales
@@ -394,14 +444,6 @@ useEffect(() => {
   const yScale = scaleLinear().domain([pointsMin, pointsMax]).range([height, 0]).nice();
 
 
-  // Color scheme for tournament levels
-  const seriesColors: Record<Series, string> = {
-    'Grand Slam': '#e74c3c',
-    'Masters': '#3498db',
-    'ATP500': '#2ecc71',
-    'ATP250': '#f39c12'
-  };
-
   // --- START: DYNAMIC MARKER LOGIC ---
 
   // Define the Y-position for the *first* level and the *step* for new levels.
@@ -418,7 +460,7 @@ useEffect(() => {
   // Draw tournament markers
   tournamentMarkerDates.forEach(marker => {
     const x = xScale(marker.date);
-    const color = seriesColors[marker.series];
+    const color = seriesColor(marker.series);
     
     // Draw the vertical line
     g.append('line')
@@ -481,7 +523,7 @@ useEffect(() => {
   // Line generator
   const lineGenerator = line<TimeSeriesPoint>()
     .x(d => xScale(d.date))
-    .y(d => yScale(d.points))
+    .y(d => yScale(d.value))
     .curve(curveMonotoneX);
 
   // Draw lines and points
@@ -503,7 +545,7 @@ useEffect(() => {
       .append('circle')
       .attr('class', `point-${series.playerId}`)
       .attr('cx', d => xScale(d.date))
-      .attr('cy', d => yScale(d.points))
+      .attr('cy', d => yScale(d.value))
       .attr('r', 3)
       .attr('fill', series.color)
       .attr('stroke', 'white')
@@ -512,7 +554,7 @@ useEffect(() => {
         showTooltip(
           {
             title: series.playerName,
-            content: [`Date: ${formatDate(d.date)}`, `Points: ${d.points}`, `Tournament: ${d.tournament}`]
+            content: [`Date: ${formatDate(d.date)}`, `${valueLabel}: ${formatValue(d.value)}`, `Tournament: ${d.tournament}`]
           },
           event
         );
@@ -541,7 +583,7 @@ useEffect(() => {
               title: series.playerName,
               content: [
                 `Date: ${formatDate(closestPoint.date)}`,
-                `Points: ${closestPoint.points}`,
+                `${valueLabel}: ${formatValue(closestPoint.value)}`,
                 `Tournament: ${closestPoint.tournament}`
               ]
             },
@@ -581,15 +623,52 @@ useEffect(() => {
     .style('text-anchor', 'middle')
     .style('font-size', '14px')
     .style('font-weight', '600')
-    .text('Ranking Points');
+    .text(metric === 'surfaceElo' ? `${eloSurface} Elo Rating` : metricLabels[metric]);
 
-}, [playerTimeSeries, tournamentMarkerDates, formatDate]);
+}, [playerTimeSeries, tournamentMarkerDates, formatDate, metric, eloSurface]);
 
   return (
     <div className="chart-container">
-      <h3>Ranking Points Timeline</h3>
+      <h3>{metric === 'points' ? 'Ranking Points Timeline' : 'Elo Rating Timeline'}</h3>
 
       <div className="timeline-filters">
+      <div className="filter-section">
+        <h4>Metric</h4>
+        <div style={{ display: 'flex', gap: '16px', alignItems: 'center', flexWrap: 'wrap' }}>
+          <div className="mode-toggle">
+            {(Object.keys(metricLabels) as TimelineMetric[]).map(m => (
+              <button
+                key={m}
+                className={`mode-button ${metric === m ? 'active' : ''}`}
+                onClick={() => setMetric(m)}
+              >
+                {metricLabels[m]}
+              </button>
+            ))}
+          </div>
+          {metric === 'surfaceElo' && (
+            <div className="filter-control">
+              <label htmlFor="timeline-elo-surface">Surface:</label>
+              <select
+                id="timeline-elo-surface"
+                value={eloSurface}
+                onChange={e => setEloSurface(e.target.value as Surface)}
+                className="filter-select"
+              >
+                {(['Hard', 'Clay', 'Grass', 'Carpet'] as Surface[]).map(surface => (
+                  <option key={surface} value={surface}>{surface}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+        {metric !== 'points' && (
+          <p style={{ fontSize: '11px', color: '#666', marginTop: '6px', marginBottom: 0 }}>
+            Ratings update after every match, computed from all matches in the dataset
+          </p>
+        )}
+      </div>
+
       <div className="filter-section">
         <h4>Selected Players</h4>
 
@@ -611,7 +690,7 @@ useEffect(() => {
             return (
               <div key={playerId} className="player-tag">
                 <div className="player-tag-color" style={{ backgroundColor: series?.color || '#999' }}></div>
-                <span>{player?.name || 'Unknown'}</span>
+                <PlayerLink playerId={playerId} name={player?.name} />
                 <button onClick={() => handleRemovePlayer(playerId)} className="remove-player" title="Remove">
                   ×
                 </button>
@@ -702,7 +781,7 @@ useEffect(() => {
             Show vertical lines for selected tournament levels. Grand Slam finals are included.
           </p>
           <div className="filter-control" style={{ display: 'grid', gridTemplateColumns: 'max-content max-content', gap: '6px', alignItems: 'center' }}>            
-            {(['Grand Slam', 'Masters', 'ATP500', 'ATP250'] as Series[]).map(series => (
+            {seriesLevels.map(series => (
               <label key={series} className="checkbox-label" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
                 <input
                   type="checkbox"
@@ -720,7 +799,7 @@ useEffect(() => {
                       display: 'inline-block',
                       width: '12px',
                       height: '12px',
-                      backgroundColor: series === 'Grand Slam' ? '#e74c3c' : series === 'Masters' ? '#3498db' : series === 'ATP500' ? '#2ecc71' : '#f39c12',
+                      backgroundColor: seriesColor(series),
                       borderRadius: '2px'
                     }}
                   ></span>
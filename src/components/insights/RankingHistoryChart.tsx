@@ -0,0 +1,143 @@
+/**
+ * Ranking History Chart
+ * Entry ranking or ranking points at each tournament a player entered
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { select } from 'd3-selection';
+import { axisBottom, axisLeft } from 'd3-axis';
+import { scaleTime, scaleLinear, scaleLog } from 'd3-scale';
+import { line } from 'd3-shape';
+import { formatDate, formatNumber, parseDate } from '../../utils/d3/formatters';
+import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
+import { getTournamentDisplayName } from '../../utils/tournamentNames';
+import type { RankingSnapshot } from '../../utils/playerStats';
+import type { Tournament } from '../../types';
+
+type RankingMetric = 'rank' | 'points';
+
+interface Props {
+  history: RankingSnapshot[];
+  tournamentsMap: Map<string, Tournament>;
+}
+
+export function RankingHistoryChart({ history, tournamentsMap }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [metric, setMetric] = useState<RankingMetric>('rank');
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const data = history
+      .filter(s => s[metric] !== undefined)
+      .map(s => ({ ...s, value: s[metric]!, time: parseDate(s.date) ?? new Date(s.date) }));
+
+    if (data.length === 0) {
+      svg.append('text')
+        .attr('x', 400)
+        .attr('y', 150)
+        .attr('text-anchor', 'middle')
+        .attr('fill', '#666')
+        .style('font-size', '16px')
+        .text('No ranking data for this player');
+      return;
+    }
+
+    const margin = { top: 20, right: 20, bottom: 60, left: 70 };
+    const width = 800 - margin.left - margin.right;
+    const height = 300 - margin.top - margin.bottom;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const times = data.map(d => d.time.getTime());
+    const xScale = scaleTime()
+      .domain([new Date(Math.min(...times)), new Date(Math.max(...times))])
+      .range([0, width])
+      .nice();
+
+    // Rankings read best at the top on a log scale; points on a linear scale
+    const values = data.map(d => d.value);
+    const yScale = metric === 'rank'
+      ? scaleLog().domain([Math.max(...values), 1]).range([height, 0]).nice()
+      : scaleLinear().domain([0, Math.max(...values)]).range([height, 0]).nice();
+
+    g.append('path')
+      .datum(data)
+      .attr('fill', 'none')
+      .attr('stroke', '#2563EB')
+      .attr('stroke-width', 2)
+      .attr('d', line<typeof data[number]>().x(d => xScale(d.time)).y(d => yScale(d.value)));
+
+    g.selectAll('.ranking-point')
+      .data(data)
+      .enter()
+      .append('circle')
+      .attr('class', 'ranking-point')
+      .attr('cx', d => xScale(d.time))
+      .attr('cy', d => yScale(d.value))
+      .attr('r', 3)
+      .attr('fill', '#2563EB')
+      .style('cursor', 'pointer')
+      .on('mouseover', function (event, d) {
+        showTooltip(
+          {
+            title: getTournamentDisplayName(tournamentsMap.get(d.tournamentId)),
+            content: [
+              `Date: ${d.date}`,
+              `Rank: ${d.rank ?? '-'}`,
+              `Points: ${d.points !== undefined ? formatNumber(d.points) : '-'}`
+            ]
+          },
+          event
+        );
+      })
+      .on('mousemove', moveTooltip)
+      .on('mouseout', hideTooltip);
+
+    g.append('g')
+      .attr('transform', `translate(0,${height})`)
+      .call(axisBottom(xScale).tickFormat(d => formatDate(d as Date)))
+      .selectAll('text')
+      .attr('transform', 'rotate(-45)')
+      .style('text-anchor', 'end');
+
+    g.append('g')
+      .call(axisLeft(yScale).ticks(6).tickFormat(formatNumber));
+
+    g.append('text')
+      .attr('transform', 'rotate(-90)')
+      .attr('y', -55)
+      .attr('x', -height / 2)
+      .attr('fill', 'currentColor')
+      .style('text-anchor', 'middle')
+      .text(metric === 'rank' ? 'Entry Ranking' : 'Ranking Points');
+  }, [history, tournamentsMap, metric]);
+
+  return (
+    <div className="chart-container">
+      <h3>Ranking History</h3>
+      <div className="filter-control mode-toggle-control">
+        <div className="mode-toggle">
+          <button
+            className={`mode-button ${metric === 'rank' ? 'active' : ''}`}
+            onClick={() => setMetric('rank')}
+          >
+            Ranking
+          </button>
+          <button
+            className={`mode-button ${metric === 'points' ? 'active' : ''}`}
+            onClick={() => setMetric('points')}
+          >
+            Points
+          </button>
+        </div>
+      </div>
+      <svg ref={svgRef} width={800} height={300}></svg>
+    </div>
+  );
+}
@@ -6,9 +6,12 @@
 import { useMemo, useState } from 'react';
 import type React from 'react';
 import { useStore } from '../../state/store';
+import { filterByStatus } from '../../utils/matchStatus';
 import type { Match, Derived, Tournament, Player } from '../../types';
 import { formatDate, formatRound, formatInteger } from '../../utils/d3/formatters';
 import { getTournamentDisplayName } from '../../utils/tournamentNames';
+import { PlayerLink } from '../PlayerLink';
+import { TournamentLink } from '../TournamentLink';
 
 interface Props {
   matches: Match[];
@@ -31,7 +34,7 @@ type SortCriteria = {
 };
 
 export function ResultsTable({ matches, derived, tournaments, players }: Props) {
-  const { surface, series, rounds, playerIds, dateRange } = useStore();
+  const { surface, series, rounds, playerIds, dateRange, completedOnly } = useStore();
   const [sortCriteria, setSortCriteria] = useState<SortCriteria[]>([]);
   const [page, setPage] = useState(1);
   const pageSize = 50;
@@ -52,7 +55,7 @@ export function ResultsTable({ matches, derived, tournaments, players }: Props)
   
   // Filter matches
   const filteredMatches = useMemo(() => {
-    let result = matches;
+    let result = filterByStatus(matches, completedOnly);
     
     if (surface) {
       result = result.filter(m => {
@@ -85,7 +88,7 @@ export function ResultsTable({ matches, derived, tournaments, players }: Props)
     }
     
     return result;
-  }, [matches, surface, series, rounds, playerIds, dateRange, tournamentsMap]);
+  }, [matches, surface, series, rounds, playerIds, dateRange, completedOnly, tournamentsMap]);
   
   // Sort matches
   const sortedMatches = useMemo(() => {
@@ -107,8 +110,9 @@ export function ResultsTable({ matches, derived, tournaments, players }: Props)
         
         // Get the value based on column type
         if (column === 'date') {
-          aVal = new Date(a.date).getTime();
-          bVal = new Date(b.date).getTime();
+          // Sequence number, so matches on the same day keep their played order
+          aVal = a.seq;
+          bVal = b.seq;
         } else if (column === 'tournament') {
           aVal = getTournamentDisplayName(tournamentA);
           bVal = getTournamentDisplayName(tournamentB);
@@ -331,10 +335,10 @@ export function ResultsTable({ matches, derived, tournaments, players }: Props)
                     }
                   </td>
                   
-                  <td>{getTournamentDisplayName(tournament)}</td>
+                  <td><TournamentLink tournament={tournament} /></td>
                   <td>{formatRound(match.round)}</td>
-                  <td>{winner?.name || 'Unknown'}</td>
-                  <td>{loser?.name || 'Unknown'}</td>
+                  <td><PlayerLink playerId={match.winnerId} name={winner?.name} /></td>
+                  <td><PlayerLink playerId={match.loserId} name={loser?.name} /></td>
                   <td>{d?.rankDiff !== undefined ? formatInteger(d.rankDiff) : '-'}</td>
                   <td>{d?.totalGames ?? '-'}</td>
                   <td>{d?.setsPlayed ?? '-'}</td>
@@ -5,12 +5,15 @@
  */
 
 import { useEffect, useRef, useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { select } from 'd3-selection';
 import { arc } from 'd3-shape';
 import { scaleLinear, scaleBand } from 'd3-scale';
 import { max } from 'd3-array';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
 import { PlayerAutocomplete } from '../PlayerAutocomplete';
+import { PlayerLink, playerPath } from '../PlayerLink';
+import { formatPlayerDetails, formatPlayerIdentity, playerMatchesSearch } from '../../utils/playerDetails';
 import type { Match, Tournament, Player } from '../../types';
 
 // Simple opponent autocomplete that clears after selection
@@ -29,7 +32,7 @@ function OpponentAutocomplete({
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const filteredPlayers = (players ?? [])
-    .filter((player) => player.name.toLowerCase().includes(searchTerm.toLowerCase()))
+    .filter((player) => playerMatchesSearch(player, searchTerm))
     .slice(0, 10);
 
   useEffect(() => {
@@ -78,6 +81,9 @@ function OpponentAutocomplete({
               onClick={() => handleSelect(player.id)}
             >
               {player.name}
+              {formatPlayerIdentity(player) && (
+                <span className="player-option-detail">{formatPlayerIdentity(player)}</span>
+              )}
             </button>
           ))}
         </div>
@@ -90,6 +96,9 @@ interface StackedRadialBarChartProps {
   matches: Match[];
   tournaments: Tournament[];
   players: Player[];
+  // Seed the primary player and opponents from outside (e.g. the match predictor)
+  defaultPrimaryPlayerId?: string | null;
+  defaultOpponentIds?: string[];
 }
 
 interface OpponentRecord {
@@ -104,8 +113,11 @@ export function StackedRadialBarChart({
   matches = [],
   tournaments: _tournaments = [],
   players = [],
+  defaultPrimaryPlayerId = null,
+  defaultOpponentIds = [],
 }: StackedRadialBarChartProps) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const navigate = useNavigate();
   const [primaryPlayerId, setPrimaryPlayerId] = useState<string | null>(null);
   const [selectedOpponentIds, setSelectedOpponentIds] = useState<string[]>([]);
   const [minRank, setMinRank] = useState<number>(1);
@@ -114,6 +126,13 @@ export function StackedRadialBarChart({
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
 
+  const defaultOpponentKey = defaultOpponentIds.join(',');
+  useEffect(() => {
+    if (!defaultPrimaryPlayerId) return;
+    setPrimaryPlayerId(defaultPrimaryPlayerId);
+    setSelectedOpponentIds(defaultOpponentKey ? defaultOpponentKey.split(',') : []);
+  }, [defaultPrimaryPlayerId, defaultOpponentKey]);
+
   // Lookup
   const playersMap = useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
 
@@ -286,6 +305,7 @@ export function StackedRadialBarChart({
 
         const endAngle = startAngle + bandWidth;
         const midAngle = (startAngle + endAngle) / 2;
+        const opponentDetails = formatPlayerDetails(playersMap.get(record.opponentId));
 
         const lossEndRadius = radiusScale(record.losses);
         const totalRadius = radiusScale(record.total);
@@ -312,6 +332,7 @@ export function StackedRadialBarChart({
                   content: [
                     `${record.wins} Wins, ${record.losses} Losses`,
                     `${record.total} Total Matches`,
+                    ...(opponentDetails ? [opponentDetails] : []),
                   ],
                 },
                 event
@@ -347,6 +368,7 @@ export function StackedRadialBarChart({
                   content: [
                     `${record.wins} Wins, ${record.losses} Losses`,
                     `${record.total} Total Matches`,
+                    ...(opponentDetails ? [opponentDetails] : []),
                   ],
                 },
                 event
@@ -383,6 +405,8 @@ export function StackedRadialBarChart({
           .style('font-size', '11px')
           .style('font-weight', '500')
           .attr('transform', `translate(${labelX}, ${labelY}) rotate(${finalRotation})`)
+          .style('cursor', 'pointer')
+          .on('click', () => navigate(playerPath(record.opponentId)))
           .text(`${idx + 1}. ${record.opponentName}`);
         // ---- END OF FIX ----
 
@@ -449,7 +473,7 @@ export function StackedRadialBarChart({
                   return (
                     <div key={opponentId} className="opponent-tag">
                       <span>
-                        {opponent?.name || 'Unknown'}
+                        <PlayerLink playerId={opponentId} name={opponent?.name} />
                         {record && ` (${record.wins}-${record.losses})`}
                       </span>
                       <button
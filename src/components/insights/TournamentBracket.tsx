@@ -1,7 +1,11 @@
 import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { select } from 'd3-selection';
 import { hierarchy, tree, HierarchyNode } from 'd3-hierarchy';
 import { linkHorizontal } from 'd3-shape';
+import { formatPercent, formatDrawName } from '../../utils/d3/formatters';
+import type { DrawSimulationResult } from '../../utils/drawSimulator';
+import { playerPath } from '../PlayerLink';
 import type { BracketNode } from '../../types';
 
 interface TournamentBracketProps {
@@ -11,6 +15,7 @@ interface TournamentBracketProps {
   minRow?: number;                 // min px between rows (leaves)
   minCol?: number;                 // min px between columns (rounds) for shallow draws
   showRoundHeaders?: boolean;      // optional round headers (off by default)
+  simulation?: DrawSimulationResult | null; // overlay each player's chance of reaching the card's round
 }
 
 export function TournamentBracket({
@@ -20,8 +25,10 @@ export function TournamentBracket({
   minRow = 34,
   minCol = 240,
   showRoundHeaders = true,
+  simulation = null,
 }: TournamentBracketProps) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const navigate = useNavigate();
   const rootRef = useRef<HierarchyNode<BracketNode> | null>(null);
 
   function collapseByDepth(n: HierarchyNode<BracketNode>, maxDepth: number) {
@@ -44,9 +51,13 @@ export function TournamentBracket({
 
     const svg = select(svgRef.current);
 
-    // Reuse root to preserve collapse state
+    // Reuse root to preserve collapse state. Children are laid out by draw
+    // slot so the top half stays on top whoever won.
     const root =
-      rootRef.current || hierarchy(bracketData as BracketNode, (d) => d.children as any);
+      rootRef.current ||
+      hierarchy(bracketData as BracketNode, (d) =>
+        [...d.children].sort((a, b) => a.attributes.slot - b.attributes.slot)
+      );
     if (!rootRef.current) {
       collapseByDepth(root, initialCollapsedDepth);
       rootRef.current = root;
@@ -273,19 +284,66 @@ export function TournamentBracket({
         .attr('stroke', '#E5E7EB');
 
       // Winner / Loser / Score (plain text)
+      // With a simulation overlay, names move left to make room for probabilities
+      const nameX = simulation ? -nodeW / 2 + 10 : 0;
+      const nameAnchor = simulation ? 'start' : 'middle';
+
       node.append('text')
+        .attr('x', nameX)
         .attr('y', -12)
-        .attr('text-anchor', 'middle')
+        .attr('text-anchor', nameAnchor)
         .attr('font-size', 13)
         .attr('font-weight', 700)
-        .text((d: any) => d.data.attributes?.winnerName ?? '');
+        .text((d: any) => {
+          const a = d.data.attributes;
+          return a ? formatDrawName(a.winnerName, a.winnerSeed, a.winnerEntry) : '';
+        })
+        .on('click', (event: MouseEvent, d: any) => {
+          // Names open the player profile instead of collapsing the card
+          event.stopPropagation();
+          navigate(playerPath(d.data.attributes.winnerId));
+        });
 
       node.append('text')
+        .attr('x', nameX)
         .attr('y', 6)
-        .attr('text-anchor', 'middle')
+        .attr('text-anchor', nameAnchor)
         .attr('font-size', 12)
         .attr('fill', '#6B7280')
-        .text((d: any) => d.data.attributes?.loserName ?? '');
+        .text((d: any) => {
+          const a = d.data.attributes;
+          return a ? formatDrawName(a.loserName, a.loserSeed, a.loserEntry) : '';
+        })
+        .on('click', (event: MouseEvent, d: any) => {
+          if (!d.data.attributes?.loserId) return;
+          event.stopPropagation();
+          navigate(playerPath(d.data.attributes.loserId));
+        });
+
+      if (simulation) {
+        const reachLabel = (playerId: string | undefined, depth: number) => {
+          if (!playerId || depth > simulation.startDepth) return '';
+          const reach = simulation.players.get(playerId)?.reach[depth];
+          return reach === undefined ? '' : formatPercent(reach);
+        };
+
+        node.append('text')
+          .attr('x', nodeW / 2 - 10)
+          .attr('y', -12)
+          .attr('text-anchor', 'end')
+          .attr('font-size', 12)
+          .attr('font-weight', 700)
+          .attr('fill', '#2563EB')
+          .text((d: any) => reachLabel(d.data.attributes?.winnerId, d.depth));
+
+        node.append('text')
+          .attr('x', nodeW / 2 - 10)
+          .attr('y', 6)
+          .attr('text-anchor', 'end')
+          .attr('font-size', 12)
+          .attr('fill', '#2563EB')
+          .text((d: any) => reachLabel(d.data.attributes?.loserId, d.depth));
+      }
 
       node.append('text')
         .attr('y', 24)
@@ -336,7 +394,7 @@ return () => {
   resizeObserver.disconnect();
 };
 
-  }, [bracketData, compact, initialCollapsedDepth, minRow, minCol, showRoundHeaders]);
+  }, [bracketData, compact, initialCollapsedDepth, minRow, minCol, showRoundHeaders, simulation]);
 
   if (!bracketData) {
     return (
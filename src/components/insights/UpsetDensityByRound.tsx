@@ -1,15 +1,16 @@
 /**
  * Upset Density by Round
- * Stacked bars showing upset share across rounds
+ * Stacked bars showing upset share across rounds,
+ * using either the rank-based or the market-based upset definition
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { select } from 'd3-selection';
 import { axisBottom, axisLeft } from 'd3-axis';
 import { scaleBand, scaleLinear, scaleOrdinal } from 'd3-scale';
 import { formatRound, formatPercent } from '../../utils/d3/formatters';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
-import type { Match, Derived, Round } from '../../types';
+import type { Match, Derived, Round, UpsetDefinition } from '../../types';
 
 interface Props {
   matches: Match[];
@@ -18,6 +19,7 @@ interface Props {
 
 export function UpsetDensityByRound({ matches, derived }: Props) {
   const svgRef = useRef<SVGSVGElement>(null);
+  const [upsetDefinition, setUpsetDefinition] = useState<UpsetDefinition>('rank');
   
   useEffect(() => {
     if (!svgRef.current) return;
@@ -25,28 +27,33 @@ export function UpsetDensityByRound({ matches, derived }: Props) {
     const derivedMap = new Map(derived.map(d => [d.matchId, d]));
     
     // Group by round
-    const roundStats = new Map<Round, { total: number; upsets: number }>();
+    const roundStats = new Map<Round, { total: number; upsets: number; upsetWinnerProb: number }>();
     
     matches.forEach(match => {
       const d = derivedMap.get(match.id);
-      if (d && d.upset !== undefined) {
+      if (!d) return;
+      const isUpset = upsetDefinition === 'rank' ? d.upset : d.marketUpset;
+      if (isUpset !== undefined) {
         if (!roundStats.has(match.round)) {
-          roundStats.set(match.round, { total: 0, upsets: 0 });
+          roundStats.set(match.round, { total: 0, upsets: 0, upsetWinnerProb: 0 });
         }
         const stats = roundStats.get(match.round)!;
         stats.total++;
-        if (d.upset) stats.upsets++;
+        if (isUpset) {
+          stats.upsets++;
+          stats.upsetWinnerProb += d.upsetMagnitude ?? 0;
+        }
       }
     });
     
+    const svg = select(svgRef.current);
+    svg.selectAll('*').remove();
+    
     const allRounds: Round[] = ['1R', '2R', '3R', '4R', 'QF', 'SF', 'F'];
     const roundsToShow = allRounds.filter(r => roundStats.has(r));
     
     if (roundsToShow.length === 0) return;
     
-    const svg = select(svgRef.current);
-    svg.selectAll('*').remove();
-    
     const margin = { top: 20, right: 20, bottom: 60, left: 80 };
     const width = 800 - margin.left - margin.right;
     const height = 400 - margin.top - margin.bottom;
@@ -96,14 +103,18 @@ export function UpsetDensityByRound({ matches, derived }: Props) {
         .attr('fill', colorScale('upset'))
         .attr('opacity', 0.7)
         .on('mouseover', function(event) {
+          const content = [
+            `Upsets: ${stats.upsets} (${formatPercent(upsetRatio)})`,
+            `Expected: ${stats.total - stats.upsets} (${formatPercent(expectedRatio)})`,
+            `Total: ${stats.total}`
+          ];
+          if (upsetDefinition === 'market' && stats.upsets > 0) {
+            content.push(`Avg. winner probability in upsets: ${formatPercent(stats.upsetWinnerProb / stats.upsets)}`);
+          }
           showTooltip(
             {
               title: formatRound(round),
-              content: [
-                `Upsets: ${stats.upsets} (${formatPercent(upsetRatio)})`,
-                `Expected: ${stats.total - stats.upsets} (${formatPercent(expectedRatio)})`,
-                `Total: ${stats.total}`
-              ]
+              content
             },
             event
           );
@@ -158,11 +169,30 @@ export function UpsetDensityByRound({ matches, derived }: Props) {
         .text(type === 'upset' ? 'Upset' : 'Expected');
     });
     
-  }, [matches, derived]);
+  }, [matches, derived, upsetDefinition]);
   
   return (
     <div className="chart-container">
       <h3>Upset Density by Round</h3>
+      <div className="filter-control mode-toggle-control">
+        <label>Upset Definition:</label>
+        <div className="mode-toggle">
+          <button
+            className={`mode-button ${upsetDefinition === 'rank' ? 'active' : ''}`}
+            onClick={() => setUpsetDefinition('rank')}
+            title="Winner had a worse entry ranking than the loser"
+          >
+            Ranking
+          </button>
+          <button
+            className={`mode-button ${upsetDefinition === 'market' ? 'active' : ''}`}
+            onClick={() => setUpsetDefinition('market')}
+            title="Winner was the betting underdog"
+          >
+            Market
+          </button>
+        </div>
+      </div>
       <svg ref={svgRef} width={800} height={400}></svg>
     </div>
   );
@@ -2,6 +2,7 @@
  * Upset Scatter Plot
  * D3 scatter plot showing WRank vs LRank with diagonal line
  * Points below the line (x=y) are upsets (red), above are expected wins (green)
+ * In market mode, upsets are matches won by the betting underdog instead
  */
 
 import { useEffect, useRef, useState, useMemo } from 'react';
@@ -12,11 +13,15 @@ import { line } from 'd3-shape';
 import { zoom, zoomIdentity } from 'd3-zoom';
 import { showTooltip, hideTooltip, moveTooltip } from '../../utils/d3/tooltip';
 import { PlayerAutocomplete } from '../PlayerAutocomplete';
+import { formatPlayerDetails } from '../../utils/playerDetails';
 import { getTournamentDisplayName } from '../../utils/tournamentNames';
-import type { Match, Tournament, Player, Surface, Series } from '../../types';
+import { formatPercent } from '../../utils/d3/formatters';
+import { SERIES_TIER, seriesInUse, formatSeries } from '../../utils/series';
+import type { Match, Derived, Tournament, Player, Surface, Series, UpsetDefinition } from '../../types';
 
 interface UpsetScatterPlotProps {
   matches: Match[];
+  derived: Derived[];
   tournaments: Tournament[];
   players: Player[];
 }
@@ -28,9 +33,12 @@ interface MatchDataPoint {
   loser: string;
   winnerId: string;
   loserId: string;
+  winnerDetails: string; // Roster details on the match date, empty without a roster
+  loserDetails: string;
   tournament: string;
   date: string;
   isUpset: boolean;
+  winnerProb?: number; // Market implied probability of the winner
   isSelectedPlayerMatch: boolean;
   surface: Surface;
   series: Series;
@@ -39,17 +47,22 @@ interface MatchDataPoint {
 
 type ViewMode = 'active' | 'highlight';
 
-export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatterPlotProps) {
+// Point radius in the player-centric view, by series tier
+const tierRadius: Record<number, number> = { 1: 8, 2: 7, 3: 6, 4: 4, 5: 2 };
+
+export function UpsetScatterPlot({ matches, derived, tournaments, players }: UpsetScatterPlotProps) {
   const svgRef = useRef<SVGSVGElement>(null);
 
   const [selectedSurface, setSelectedSurface] = useState<Surface | 'All'>('All');
   const [selectedSeries, setSelectedSeries] = useState<Series | 'All'>('All');
+  const seriesOptions = useMemo(() => seriesInUse(tournaments), [tournaments]);
   const [minRank, setMinRank] = useState<number>(1);
   const [maxRank, setMaxRank] = useState<number>(1000);
   const [fromDate, setFromDate] = useState<string>('');
   const [toDate, setToDate] = useState<string>('');
   const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('active');
+  const [upsetDefinition, setUpsetDefinition] = useState<UpsetDefinition>('rank');
 
   // Date boundaries from data
   const dataDateRange = useMemo(() => {
@@ -61,6 +74,7 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
   // Lookups
   const tournamentsMap = useMemo(() => new Map(tournaments.map(t => [t.id, t])), [tournaments]);
   const playersMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const derivedMap = useMemo(() => new Map(derived.map(d => [d.matchId, d])), [derived]);
 
   // Filter & shape data
   const processedData = useMemo(() => {
@@ -90,7 +104,11 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
       const winnerName = winner?.name || 'Unknown';
       const loserName = loser?.name || 'Unknown';
 
-      const isUpset = wRank > lRank;
+      // Market mode only plots matches that have odds
+      const d = derivedMap.get(match.id);
+      const marketUpset = d?.marketUpset;
+      if (upsetDefinition === 'market' && marketUpset === undefined) return;
+      const isUpset = upsetDefinition === 'market' ? marketUpset === true : wRank > lRank;
       const isSelectedPlayerMatch =
         selectedPlayerId !== null &&
         (match.winnerId === selectedPlayerId || match.loserId === selectedPlayerId);
@@ -103,9 +121,12 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
         loser: loserName,
         winnerId: match.winnerId,
         loserId: match.loserId,
+        winnerDetails: formatPlayerDetails(winner, match.date),
+        loserDetails: formatPlayerDetails(loser, match.date),
         tournament: tournamentName,
         date: match.date,
         isUpset,
+        winnerProb: d?.upsetMagnitude,
         isSelectedPlayerMatch,
         surface: tournament?.surface || 'Hard',
         series: tournament?.series || 'ATP250',
@@ -121,6 +142,8 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
     matches,
     tournamentsMap,
     playersMap,
+    derivedMap,
+    upsetDefinition,
     selectedSurface,
     selectedSeries,
     minRank,
@@ -138,13 +161,7 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
       return Math.max(2, Math.min(12, Math.abs(d.wRank - d.lRank) * 0.3));
     } else {
       // Player-Centric View: radius based on Tournament Series
-      const seriesRadius: Record<Series, number> = {
-        'Grand Slam': 8,
-        'Masters': 6,
-        'ATP500': 4,
-        'ATP250': 2
-      };
-      return seriesRadius[d.series] || 4;
+      return tierRadius[SERIES_TIER[d.series]] || 4;
     }
   };
 
@@ -322,6 +339,9 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
           `Tournament: ${d.tournament}`,
           `Date: ${d.date}`,
           `Surface: ${d.surface}`,
+          ...(d.winnerDetails ? [`${d.winner}: ${d.winnerDetails}`] : []),
+          ...(d.loserDetails ? [`${d.loser}: ${d.loserDetails}`] : []),
+          ...(d.winnerProb !== undefined ? [`Market win probability: ${formatPercent(d.winnerProb)}`] : []),
           selectedPlayerId
             ? d.selectedPlayerWon
               ? 'Win'
@@ -371,6 +391,9 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
           `Tournament: ${d.tournament}`,
           `Date: ${d.date}`,
           `Surface: ${d.surface}`,
+          ...(d.winnerDetails ? [`${d.winner}: ${d.winnerDetails}`] : []),
+          ...(d.loserDetails ? [`${d.loser}: ${d.loserDetails}`] : []),
+          ...(d.winnerProb !== undefined ? [`Market win probability: ${formatPercent(d.winnerProb)}`] : []),
           selectedPlayerId
             ? d.selectedPlayerWon
               ? 'Win'
@@ -432,6 +455,9 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
           `Tournament: ${d.tournament}`,
           `Date: ${d.date}`,
           `Surface: ${d.surface}`,
+          ...(d.winnerDetails ? [`${d.winner}: ${d.winnerDetails}`] : []),
+          ...(d.loserDetails ? [`${d.loser}: ${d.loserDetails}`] : []),
+          ...(d.winnerProb !== undefined ? [`Market win probability: ${formatPercent(d.winnerProb)}`] : []),
           selectedPlayerId
             ? d.selectedPlayerWon
               ? 'Win'
@@ -479,8 +505,8 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
     if (selectedPlayerId === null) {
       // Global View Legend
       [
-        { label: 'Upset', color: '#e91e63', shape: 'circle' },
-        { label: 'Expected', color: '#4caf50', shape: 'circle' }
+        { label: upsetDefinition === 'market' ? 'Upset (underdog won)' : 'Upset', color: '#e91e63', shape: 'circle' },
+        { label: upsetDefinition === 'market' ? 'Expected (favourite won)' : 'Expected', color: '#4caf50', shape: 'circle' }
       ].forEach((item) => {
         const row = legend.append('g').attr('transform', `translate(0, ${legendY})`);
         row.append('circle')
@@ -559,10 +585,11 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
         .text('Size = Series Level');
       legendY += 15;
       [
-        { label: 'Grand Slam', size: 8 },
-        { label: 'Masters', size: 6 },
-        { label: 'ATP 500', size: 4 },
-        { label: 'ATP 250', size: 2 }
+        { label: 'Grand Slam', size: tierRadius[1] },
+        { label: 'Season Finals', size: tierRadius[2] },
+        { label: '1000 level', size: tierRadius[3] },
+        { label: '500 level', size: tierRadius[4] },
+        { label: '250 level', size: tierRadius[5] }
       ].forEach((item) => {
         const row = legend.append('g').attr('transform', `translate(0, ${legendY})`);
         row.append('circle')
@@ -620,7 +647,7 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
       rootG.on('.zoom', null).on('dblclick', null);
       svg.selectAll('*').remove();
     };
-  }, [processedData, viewMode, selectedPlayerId]);
+  }, [processedData, viewMode, selectedPlayerId, upsetDefinition]);
 
   return (
     <div className="chart-container">
@@ -652,10 +679,9 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
             className="filter-select"
           >
             <option value="All">All</option>
-            <option value="Grand Slam">Grand Slam</option>
-            <option value="Masters">Masters 1000</option>
-            <option value="ATP500">ATP 500</option>
-            <option value="ATP250">ATP 250</option>
+            {seriesOptions.map(s => (
+              <option key={s} value={s}>{formatSeries(s)}</option>
+            ))}
           </select>
         </div>
 
@@ -726,6 +752,26 @@ export function UpsetScatterPlot({ matches, tournaments, players }: UpsetScatter
           </div>
         )}
 
+        <div className="filter-control mode-toggle-control">
+          <label>Upset Definition:</label>
+          <div className="mode-toggle">
+            <button
+              className={`mode-button ${upsetDefinition === 'rank' ? 'active' : ''}`}
+              onClick={() => setUpsetDefinition('rank')}
+              title="Winner had a worse entry ranking than the loser"
+            >
+              Ranking
+            </button>
+            <button
+              className={`mode-button ${upsetDefinition === 'market' ? 'active' : ''}`}
+              onClick={() => setUpsetDefinition('market')}
+              title="Winner was the betting underdog"
+            >
+              Market
+            </button>
+          </div>
+        </div>
+
         <div className="filter-control player-filter-control">
           <label>Player:</label>
           <PlayerAutocomplete
@@ -0,0 +1,210 @@
+/**
+ * Draw Reconstruction
+ *
+ * The CSVs record who beat whom in each round but not where players sat in
+ * the draw. The knockout tree is rebuilt from the final down, and each pair of
+ * feeder sections is placed as on a tour draw: the section holding the better
+ * entry ranking goes to the outer edge of its half. The top seed opens the top
+ * line and the second seed closes the bottom line; seeds 3 and 4 take the
+ * bottom of the second quarter and the top of the third, and likewise down
+ * through eighths. The draw no longer depends on who won each match, and every
+ * match gets a slot counted from the top of its round.
+ *
+ * Seeds are inferred from entry rankings, a quarter of the draw size as on the
+ * tour (32 seeds in a 128 draw, 8 in a 32 or 28 draw). A player whose first
+ * match is in the second round had a bye. Qualifiers and lucky losers are only
+ * marked from the qualifying rounds; files without them leave entries unmarked.
+ */
+
+import { formatScore } from '../utils/d3/formatters';
+import type { BracketNode, DrawEntry, Match, Player, Round } from '../types';
+
+// Main-draw rounds, earliest first. RR matches form the group stage instead
+// (see roundRobin.ts).
+const MAIN_DRAW_ROUNDS: Round[] = ['1R', '2R', '3R', '4R', 'QF', 'SF', 'F'];
+const QUALIFYING_ROUNDS: Round[] = ['Q1', 'Q2', 'Q3'];
+
+// Sorts unranked players after every ranked one
+const UNRANKED = Number.MAX_SAFE_INTEGER;
+
+interface DrawContext {
+  rounds: Round[]; // Rounds this draw played, earliest first
+  matches: Match[];
+  nameOf: (playerId: string) => string;
+  rankOf: (playerId: string) => number;
+  seeds: Map<string, number>;
+  entries: Map<string, DrawEntry>;
+}
+
+/**
+ * A node together with the best entry ranking anywhere below it
+ */
+interface DrawSection {
+  node: BracketNode;
+  bestRank: number;
+}
+
+function bySection(a: DrawSection, b: DrawSection): number {
+  return (
+    a.bestRank - b.bestRank ||
+    a.node.attributes.winnerName.localeCompare(b.node.attributes.winnerName)
+  );
+}
+
+function matchSection(match: Match, roundIndex: number, ctx: DrawContext): DrawSection {
+  const winnerName = ctx.nameOf(match.winnerId);
+  const loserName = ctx.nameOf(match.loserId);
+
+  // The first round has no feeders; later rounds take one from each player
+  const feeders =
+    roundIndex === 0
+      ? []
+      : [match.winnerId, match.loserId]
+          .map(playerId => feederSection(playerId, roundIndex - 1, ctx))
+          .sort(bySection);
+
+  return {
+    node: {
+      name: `${winnerName} d. ${loserName}`,
+      attributes: {
+        round: match.round,
+        slot: 0,
+        winnerId: match.winnerId,
+        loserId: match.loserId,
+        winnerName,
+        loserName,
+        winnerSeed: ctx.seeds.get(match.winnerId),
+        loserSeed: ctx.seeds.get(match.loserId),
+        winnerEntry: ctx.entries.get(match.winnerId),
+        loserEntry: ctx.entries.get(match.loserId),
+        score: formatScore(match.w, match.l, match.status)
+      },
+      children: feeders.map(feeder => feeder.node)
+    },
+    bestRank: Math.min(
+      ctx.rankOf(match.winnerId),
+      ctx.rankOf(match.loserId),
+      ...feeders.map(feeder => feeder.bestRank)
+    )
+  };
+}
+
+/**
+ * The match a player won to reach the next round, or a bye if they did not play in this one
+ */
+function feederSection(playerId: string, roundIndex: number, ctx: DrawContext): DrawSection {
+  const round = ctx.rounds[roundIndex];
+  const match = ctx.matches.find(m => m.round === round && m.winnerId === playerId);
+  if (match) return matchSection(match, roundIndex, ctx);
+
+  const name = ctx.nameOf(playerId);
+  return {
+    node: {
+      name,
+      attributes: {
+        round,
+        slot: 0,
+        winnerId: playerId,
+        winnerName: name,
+        loserName: 'BYE',
+        winnerSeed: ctx.seeds.get(playerId),
+        winnerEntry: ctx.entries.get(playerId),
+        score: 'BYE'
+      },
+      children: []
+    },
+    bestRank: ctx.rankOf(playerId)
+  };
+}
+
+/**
+ * Sections are built with the better one first. A section in the bottom of its
+ * half faces the bottom edge of the draw, so its better half goes below.
+ */
+function orientSections(node: BracketNode, facesBottom: boolean) {
+  if (facesBottom) node.children.reverse();
+  node.children.forEach((child, index) => orientSections(child, index === 1));
+}
+
+function assignSlots(node: BracketNode, slot: number) {
+  node.attributes.slot = slot;
+  node.children.forEach((child, index) => assignSlots(child, slot * 2 + index));
+}
+
+/**
+ * Main-draw rounds a tournament played, earliest first. Smaller draws skip
+ * round names (a 28 draw goes 2R -> QF), so only the rounds actually played
+ * count towards the draw size.
+ */
+function playedRounds(tournamentMatches: Match[]): Round[] {
+  return MAIN_DRAW_ROUNDS.filter(round => tournamentMatches.some(m => m.round === round));
+}
+
+/**
+ * Number of seeds in a tournament's main draw: a quarter of the draw size.
+ * The knockout phase after round-robin groups is not seeded.
+ */
+export function seedCount(tournamentMatches: Match[]): number {
+  if (tournamentMatches.some(m => m.round === 'RR')) return 0;
+  return 2 ** playedRounds(tournamentMatches).length / 4;
+}
+
+/**
+ * Rebuild the main draw of one tournament, or null if it has no final
+ */
+export function buildBracket(
+  tournamentMatches: Match[],
+  playerMap: Map<string, Player>
+): BracketNode | null {
+  const matches = tournamentMatches.filter(m => MAIN_DRAW_ROUNDS.includes(m.round));
+  const finalMatch = matches.find(m => m.round === 'F');
+  if (!finalMatch) return null;
+
+  const rounds = playedRounds(matches);
+
+  // Entry rankings are fixed for the whole tournament
+  const ranks = new Map<string, number>();
+  matches.forEach(m => {
+    if (m.wRank !== undefined) ranks.set(m.winnerId, m.wRank);
+    if (m.lRank !== undefined) ranks.set(m.loserId, m.lRank);
+  });
+  const rankOf = (playerId: string) => ranks.get(playerId) ?? UNRANKED;
+  const nameOf = (playerId: string) => playerMap.get(playerId)?.name || 'Unknown';
+
+  const players = Array.from(new Set(matches.flatMap(m => [m.winnerId, m.loserId])));
+  const seeds = new Map<string, number>(
+    players
+      .filter(playerId => ranks.has(playerId))
+      .sort((a, b) => rankOf(a) - rankOf(b) || nameOf(a).localeCompare(nameOf(b)))
+      .slice(0, seedCount(tournamentMatches))
+      .map((playerId, index) => [playerId, index + 1])
+  );
+
+  const entries = new Map<string, DrawEntry>();
+  const qualifyingRound = [...QUALIFYING_ROUNDS]
+    .reverse()
+    .find(round => tournamentMatches.some(m => m.round === round));
+  if (qualifyingRound) {
+    // Winners of the last qualifying round qualified; losers who still made
+    // the main draw came in as lucky losers
+    const mainDraw = new Set(players);
+    tournamentMatches
+      .filter(m => m.round === qualifyingRound)
+      .forEach(m => {
+        entries.set(m.winnerId, 'Q');
+        if (mainDraw.has(m.loserId)) entries.set(m.loserId, 'LL');
+      });
+  }
+
+  const root = matchSection(finalMatch, rounds.length - 1, {
+    rounds,
+    matches,
+    nameOf,
+    rankOf,
+    seeds,
+    entries
+  }).node;
+  orientSections(root, false);
+  assignSlots(root, 0);
+  return root;
+}
@@ -0,0 +1,270 @@
+/**
+ * Event Registry
+ *
+ * A tournament in the CSVs is one edition, named by its sponsor of the year
+ * and its host city. Sponsors rename events ("Mercedes Cup" became "Stuttgart
+ * Open") and events move ("European Open" left Antwerp for Brussels), so each
+ * edition is tied to a stable event id that groups the event's history.
+ *
+ * The registry lives in eventRegistry.json and is the one place tournament
+ * metadata is kept: every name and city an event has used, plus its common
+ * name, host city and country, draw size, category history and typical
+ * calendar week. Bump `version` when entries change meaning.
+ *
+ * Ingest resolves every edition in year order: first by exact name and
+ * location against the registry, then by a fuzzy fallback that joins an
+ * edition to an earlier event in the same city when one name contains the
+ * other's words ("BB&T Atlanta Open" and "Atlanta Open"), and otherwise starts
+ * a new event. Fuzzy joins and editions of unregistered events are printed so
+ * they can be added.
+ *
+ * To maintain: when an event is renamed or moves, add the new name or city to
+ * its entry; when a new event appears, add an entry. Keep `id` unchanged so
+ * links keep working. Names only match within the entry's tour.
+ * Run: npm run ingest
+ */
+
+import { isSeries } from '../utils/series';
+import type { EventMetadata, Series, Tour, Tournament } from '../types';
+import registryFile from './eventRegistry.json';
+
+export interface EventRegistryEntry extends EventMetadata {
+  names: string[]; // Every name the event has been played under
+  locations: string[]; // Every city it has been held in
+}
+
+export interface EventRegistry {
+  version: number;
+  events: EventRegistryEntry[];
+}
+
+/**
+ * Fail loudly on registry entries ingest cannot use
+ */
+function checkEventRegistry(registry: EventRegistry): EventRegistry {
+  if (!Number.isInteger(registry.version)) {
+    throw new Error('Event registry: eventRegistry.json has no version');
+  }
+
+  for (const entry of registry.events) {
+    if (entry.names.length === 0 || entry.locations.length === 0) {
+      throw new Error(`Event registry: "${entry.id}" needs at least one name and location`);
+    }
+    entry.categories.forEach((category, i) => {
+      if (!isSeries(category.series)) {
+        throw new Error(`Event registry: "${entry.id}" has an unknown series "${category.series}"`);
+      }
+      if (i > 0 && category.from <= entry.categories[i - 1].from) {
+        throw new Error(`Event registry: "${entry.id}" lists its categories out of year order`);
+      }
+    });
+  }
+
+  return registry;
+}
+
+export const eventRegistry = checkEventRegistry(registryFile as EventRegistry);
+
+/**
+ * The category an event was played in during a given year, if the registry covers it
+ */
+function categoryInYear(entry: EventMetadata, year: number): Series | undefined {
+  const current = entry.categories.filter(category => category.from <= year);
+  return current[current.length - 1]?.series;
+}
+
+/**
+ * Index key for one name and city on one tour
+ */
+function eventKey(tour: Tour, name: string, location: string): string {
+  return `${tour}|${name}|${location}`;
+}
+
+/**
+ * Index the registry by tour, name and city, failing loudly on conflicting entries
+ */
+export function buildEventIndex(entries: EventRegistryEntry[]): Map<string, EventRegistryEntry> {
+  const byKey = new Map<string, EventRegistryEntry>();
+  const ids = new Set<string>();
+
+  for (const entry of entries) {
+    if (ids.has(entry.id)) {
+      throw new Error(`Event registry: id "${entry.id}" is used by more than one entry`);
+    }
+    ids.add(entry.id);
+
+    for (const name of entry.names) {
+      for (const location of entry.locations) {
+        const key = eventKey(entry.tour, name, location);
+        const existing = byKey.get(key);
+        if (existing) {
+          throw new Error(`Event registry: "${name}" in ${location} is listed under both "${existing.id}" and "${entry.id}"`);
+        }
+        byKey.set(key, entry);
+      }
+    }
+  }
+
+  return byKey;
+}
+
+/**
+ * Accent- and punctuation-free words of a name: "U.S.Men's Clay Court
+ * Championships" and "U.S. Men's Clay Court Championships" give the same words
+ */
+function nameWords(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Same words, or every word of the shorter name (at least two) in the longer
+ */
+function similarNames(a: string, b: string): boolean {
+  const [shorter, longer] = [nameWords(a), nameWords(b)].sort((x, y) => x.length - y.length);
+  if (shorter.join(' ') === longer.join(' ')) return true;
+  const longerWords = new Set(longer);
+  return shorter.length >= 2 && shorter.every(word => longerWords.has(word));
+}
+
+interface ResolvedEvent {
+  id: string;
+  tour: Tour;
+  editions: Tournament[];
+}
+
+/**
+ * An edition joined to an earlier event by the fuzzy fallback
+ */
+export interface FuzzyEventMatch {
+  tournament: Tournament;
+  eventId: string;
+  matchedName: string; // Name of the event's previous edition
+}
+
+/**
+ * Set `eventId` and the previous/next edition links on every tournament.
+ * `newEventId` names an event that is neither registered nor matched, from its
+ * first edition. Returns the editions joined by the fuzzy fallback.
+ */
+export function assignEvents(
+  tournaments: Tournament[],
+  index: Map<string, EventRegistryEntry>,
+  newEventId: (firstEdition: Tournament) => string
+): FuzzyEventMatch[] {
+  const events = new Map<string, ResolvedEvent>();
+  const fuzzyMatches: FuzzyEventMatch[] = [];
+
+  const eventFor = (id: string, tour: Tour) => {
+    let event = events.get(id);
+    if (!event) {
+      event = { id, tour, editions: [] };
+      events.set(id, event);
+    }
+    return event;
+  };
+
+  // Unregistered ids must not take a registered one
+  const takenIds = new Set(Array.from(index.values()).map(entry => entry.id));
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let n = 2; takenIds.has(id); n++) id = `${base}-${n}`;
+    takenIds.add(id);
+    return id;
+  };
+
+  const inOrder = [...tournaments].sort(
+    (a, b) => a.year - b.year || a.name.localeCompare(b.name) || a.location.localeCompare(b.location)
+  );
+
+  for (const tournament of inOrder) {
+    const { tour, year, name, location } = tournament;
+    let event: ResolvedEvent | undefined;
+
+    const entry = index.get(eventKey(tour, name, location));
+    if (entry) {
+      event = eventFor(entry.id, tour);
+      if (event.editions.some(e => e.year === year)) {
+        throw new Error(`Event registry: "${entry.id}" would have two editions in ${year}`);
+      }
+    } else {
+      // Fuzzy fallback: exactly one earlier event in the same city, not yet
+      // played this year, whose latest name is similar
+      const candidates = Array.from(events.values()).filter(e => {
+        const latest = e.editions[e.editions.length - 1];
+        return (
+          e.tour === tour &&
+          latest.location === location &&
+          !e.editions.some(edition => edition.year === year) &&
+          similarNames(latest.name, name)
+        );
+      });
+      if (candidates.length === 1) {
+        event = candidates[0];
+        const latestName = event.editions[event.editions.length - 1].name;
+        if (latestName !== name) {
+          fuzzyMatches.push({ tournament, eventId: event.id, matchedName: latestName });
+        }
+      } else {
+        event = eventFor(uniqueId(newEventId(tournament)), tour);
+      }
+    }
+
+    event.editions.push(tournament);
+  }
+
+  events.forEach(event => {
+    event.editions.forEach((edition, i) => {
+      edition.eventId = event.id;
+      edition.previousEditionId = event.editions[i - 1]?.id;
+      edition.nextEditionId = event.editions[i + 1]?.id;
+    });
+  });
+
+  return fuzzyMatches;
+}
+
+/**
+ * Registry problems found after events are assigned
+ */
+export interface EventMetadataReport {
+  unmapped: Tournament[]; // Editions of events the registry does not list
+  categoryMismatches: Array<{ tournament: Tournament; expected?: Series }>;
+}
+
+/**
+ * Copy each registered event's common name and country onto its editions and
+ * check every edition's series against the category history
+ */
+export function applyEventMetadata(
+  tournaments: Tournament[],
+  entries: EventRegistryEntry[]
+): EventMetadataReport {
+  const byId = new Map(entries.map(entry => [entry.id, entry]));
+  const report: EventMetadataReport = { unmapped: [], categoryMismatches: [] };
+
+  for (const tournament of tournaments) {
+    const entry = byId.get(tournament.eventId);
+    if (!entry) {
+      report.unmapped.push(tournament);
+      continue;
+    }
+
+    tournament.commonName = entry.commonName;
+    tournament.country = entry.country;
+
+    const expected = categoryInYear(entry, tournament.year);
+    if (expected !== tournament.series) {
+      report.categoryMismatches.push({ tournament, expected });
+    }
+  }
+
+  const byYear = (a: Tournament, b: Tournament) => a.year - b.year || a.name.localeCompare(b.name);
+  report.unmapped.sort(byYear);
+  report.categoryMismatches.sort((a, b) => byYear(a.tournament, b.tournament));
+  return report;
+}
@@ -0,0 +1,126 @@
+/**
+ * Fit the Match Prediction Model
+ *
+ * Refits the logistic coefficients and the best-of-5 scale in
+ * src/utils/prediction.ts from the ingested matches. Only matches inside
+ * MODEL_FIT_WINDOW are used; later matches are left for the Calibration page
+ * to score out of sample. Features come from predictHistoricalMatches, so they
+ * are exactly what the app computes (player state from earlier matches only).
+ *
+ * To maintain: run after ingest, paste the printed values into prediction.ts,
+ * and move MODEL_FIT_WINDOW together with them if the window changes.
+ * Run: npm run fit-model
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MODEL_FIT_WINDOW, predictHistoricalMatches, type PredictionFeatures } from '../utils/prediction';
+import type { Match, Tournament } from '../types';
+
+const FEATURES: Array<keyof PredictionFeatures> = ['rank', 'points', 'form', 'surface'];
+
+// Small ridge penalty keeps the Newton steps stable when features are collinear
+const RIDGE = 1e-3;
+const ITERATIONS = 25;
+
+interface Sample {
+  x: number[];
+  y: number; // 1 if player A won
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+/**
+ * Solve A x = b by Gaussian elimination (A is small and positive definite)
+ */
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Logistic regression without an intercept (player A is arbitrary, so the
+ * model is symmetric) by Newton's method
+ */
+function fitLogistic(samples: Sample[]): number[] {
+  let w = FEATURES.map(() => 0);
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = w.map(wi => -RIDGE * wi);
+    const hessian = w.map((_, i) => w.map((_, j) => (i === j ? RIDGE : 0)));
+    samples.forEach(({ x, y }) => {
+      const p = sigmoid(dot(w, x));
+      x.forEach((xi, i) => {
+        gradient[i] += (y - p) * xi;
+        x.forEach((xj, j) => {
+          hessian[i][j] += p * (1 - p) * xi * xj;
+        });
+      });
+    });
+    w = w.map((wi, i) => wi + solve(hessian, gradient)[i]);
+  }
+  return w;
+}
+
+/**
+ * Scale on the fitted logit that best explains best-of-5 results
+ */
+function fitScale(samples: Sample[], w: number[]): number {
+  let scale = 1;
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    let gradient = 0;
+    let curvature = 0;
+    samples.forEach(({ x, y }) => {
+      const logit = dot(w, x);
+      const p = sigmoid(scale * logit);
+      gradient += (y - p) * logit;
+      curvature += p * (1 - p) * logit * logit;
+    });
+    scale += gradient / curvature;
+  }
+  return scale;
+}
+
+function fitModel() {
+  const dataDir = path.join(process.cwd(), 'public', 'data');
+  const read = <T>(file: string) => JSON.parse(fs.readFileSync(path.join(dataDir, file), 'utf-8')) as T;
+  const matches = read<Match[]>('matches.json');
+  const tournaments = read<Tournament[]>('tournaments.json');
+
+  const inWindow = predictHistoricalMatches(matches, tournaments).filter(
+    p => p.date >= MODEL_FIT_WINDOW.from && p.date <= MODEL_FIT_WINDOW.to
+  );
+  const toSample = (p: (typeof inWindow)[number]): Sample => ({
+    x: FEATURES.map(feature => p.features[feature]),
+    y: p.aWon ? 1 : 0
+  });
+  const bestOf3 = inWindow.filter(p => p.bestOf === 3).map(toSample);
+  const bestOf5 = inWindow.filter(p => p.bestOf === 5).map(toSample);
+
+  const w = fitLogistic(bestOf3);
+  const scale = fitScale(bestOf5, w);
+
+  console.log(`Fitted on ${bestOf3.length} best-of-3 and ${bestOf5.length} best-of-5 matches`);
+  console.log(`from ${MODEL_FIT_WINDOW.from} to ${MODEL_FIT_WINDOW.to}\n`);
+  console.log('const COEFFICIENTS = {');
+  FEATURES.forEach((feature, i) => {
+    console.log(`  ${feature}: ${w[i].toFixed(3)}${i < FEATURES.length - 1 ? ',' : ''}`);
+  });
+  console.log('};');
+  console.log(`const BEST_OF_5_SCALE = ${scale.toFixed(2)};`);
+}
+
+fitModel();
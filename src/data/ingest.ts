@@ -1,32 +1,67 @@
 /**
- * Data ingestion pipeline for all ATP year CSVs
+ * Data ingestion pipeline for all ATP and WTA year CSVs
  * Processes all CSVs, normalizes data, creates IDs, and outputs
  * consolidated JSON files and tournament brackets.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { csvParse } from 'd3-dsv';
-// Import the new BracketNode type along with the existing types
+import { getMarketWinnerProb } from '../utils/odds';
+import { computeEloRatings } from '../utils/elo';
+import {
+  playerRegistry,
+  buildRegistryIndex,
+  registryKey,
+  findSuspectedDuplicates,
+  type PlayerRegistryEntry
+} from './playerRegistry';
+import { eventRegistry, buildEventIndex, assignEvents, applyEventMetadata } from './eventRegistry';
+import {
+  createValidationReport,
+  recordSkip,
+  recordDefault,
+  recordFlag,
+  printValidationSummary,
+  type RowLocation,
+  type ValidationIssue
+} from './validation';
+import { checkScore, formatSets } from './scoreCheck';
+import { applyRoster } from './roster';
+import { playerCountries, applyPlayerCountries } from './playerCountries';
+import { buildGroupStage } from './roundRobin';
+import { buildBracket } from './draw';
 import type {
   Player,
   Tournament,
   Match,
   Derived,
+  EventCatalog,
   Round,
   Series,
+  WtaTier,
+  Tour,
   Court,
   Surface,
-  BracketNode, // <-- NEW IMPORT
+  Bookmaker,
+  BookOdds,
+  MatchOdds,
+  MatchStatus,
+  ScoreStatus,
 } from '../types';
 
-// CSV row interface (assuming it's the same for all files)
+// CSV row interface. Column sets vary by year: older files have no ranking
+// points and carry a different set of bookmakers, so those columns are optional.
+// WTA files have WTA/Tier where ATP files have ATP/Series.
 interface CSVRow {
-  ATP: string;
+  ATP?: string;
+  WTA?: string;
   Location: string;
   Tournament: string;
   Date: string;
-  Series: string;
+  Series?: string;
+  Tier?: string;
   Court: string;
   Surface: string;
   Round: string;
@@ -35,8 +70,8 @@ interface CSVRow {
   Loser: string;
   WRank: string;
   LRank: string;
-  WPts: string;
-  LPts: string;
+  WPts?: string;
+  LPts?: string;
   W1: string;
   L1: string;
   W2: string;
@@ -61,10 +96,31 @@ interface CSVRow {
   AvgL?: string;
   BFEW?: string;
   BFEL?: string;
+  'B&WW'?: string;
+  'B&WL'?: string;
+  CBW?: string;
+  CBL?: string;
+  EXW?: string;
+  EXL?: string;
+  GBW?: string;
+  GBL?: string;
+  IWW?: string;
+  IWL?: string;
+  LBW?: string;
+  LBL?: string;
+  SBW?: string;
+  SBL?: string;
+  SJW?: string;
+  SJL?: string;
+  UBW?: string;
+  UBL?: string;
 }
 
 // --- Utility Functions ---
 
+// Called by the normalizers below when they fall back to a default value
+type DefaultHandler = (fallback: string) => void;
+
 function normalizeValue(value: string | undefined | null): string | null {
   if (!value || value.trim() === '' || value.trim().toUpperCase() === 'N/A') {
     return null;
@@ -79,6 +135,10 @@ function normalizeNumber(value: string | undefined | null): number | null {
   return isNaN(num) ? null : num;
 }
 
+/**
+ * Files before 2003 give every match of a tournament its start date, so
+ * matches on the same date are ordered by round (see assignMatchSequence).
+ */
 function parseDate(dateStr: string): string {
   // Dates are in MM/DD/YYYY format from the sample
   const normalized = normalizeValue(dateStr);
@@ -97,13 +157,12 @@ function parseDate(dateStr: string): string {
   const parts = normalized.split('/');
   if (parts.length === 3) {
     const [month, day, year] = parts;
-    // Ensure year is 4 digits
-    const fullYear = year.length === 2 ? `20${year}` : year;
+    // Ensure year is 4 digits; the data starts in 2000, so "99" would be 1999
+    const fullYear = year.length === 2 ? `${parseInt(year) < 50 ? '20' : '19'}${year}` : year;
     const date = new Date(parseInt(fullYear), parseInt(month) - 1, parseInt(day));
     return date.toISOString().split('T')[0]; // YYYY-MM-DD
   }
 
-  console.warn(`Could not parse date: ${dateStr}`);
   return ''; // Return empty for invalid dates
 }
 
@@ -117,8 +176,24 @@ function slugify(text: string): string {
     .trim();
 }
 
-function createPlayerID(name: string, existingIDs: Map<string, number>): string {
-  const base = slugify(name);
+/**
+ * Year CSVs are named like the tennis-data.co.uk downloads: 2025.csv for the
+ * ATP, 2025w.csv for the WTA
+ */
+const CSV_FILE_PATTERN = /^\d{4}w?\.csv$/;
+
+function tourFromFile(csvFile: string): Tour {
+  return /w\.csv$/.test(csvFile) ? 'WTA' : 'ATP';
+}
+
+// ATP ids predate WTA support, so only WTA ids carry the tour; the same name
+// or event on both tours never collides and ATP ids stay unchanged
+function tourIdPrefix(tour: Tour): string {
+  return tour === 'WTA' ? 'wta-' : '';
+}
+
+function createPlayerID(name: string, tour: Tour, existingIDs: Map<string, number>): string {
+  const base = `${tourIdPrefix(tour)}${slugify(name)}`;
   if (!existingIDs.has(base)) {
     existingIDs.set(base, 0);
     return base;
@@ -128,36 +203,162 @@ function createPlayerID(name: string, existingIDs: Map<string, number>): string
   return `${base}-${count}`;
 }
 
-function createTournamentID(year: number, tournament: string, location: string): string {
-  // Simple hash function
-  const str = `${year}-${tournament}-${location}`;
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
+/**
+ * Id of every unregistered player, keyed by tour and spelling. Names that slug
+ * to the same id are numbered by where each player first appears (earliest
+ * match date, then tournament, then name), so the suffixes do not depend on
+ * file or row order. Registry ids are reserved and never handed out.
+ */
+function assignPlayerIds(
+  parsedFiles: ParsedFile[],
+  registryIndex: Map<string, PlayerRegistryEntry>
+): Map<string, string> {
+  const firstSeen = new Map<string, { tour: Tour; name: string; first: string }>();
+  parsedFiles.forEach(parsed => {
+    parsed.rows.forEach(row => {
+      [row.winnerName, row.loserName].forEach(name => {
+        const key = registryKey(parsed.tour, name);
+        if (registryIndex.has(key)) return;
+        const first = `${row.date}|${row.tournamentKey}`;
+        const seen = firstSeen.get(key);
+        if (!seen || first < seen.first) firstSeen.set(key, { tour: parsed.tour, name, first });
+      });
+    });
+  });
+
+  const playerIDs = new Map<string, number>(); // Track duplicates
+  registryIndex.forEach(entry => playerIDs.set(entry.id, 0));
+  const ids = new Map<string, string>();
+  Array.from(firstSeen.entries())
+    .sort(([, a], [, b]) => a.first.localeCompare(b.first) || a.name.localeCompare(b.name))
+    .forEach(([key, { tour, name }]) => ids.set(key, createPlayerID(name, tour, playerIDs)));
+  return ids;
+}
+
+/**
+ * Resolve a CSV spelling to its player, merging registry aliases into one
+ * record under the registry's pinned id and canonical name.
+ */
+function resolvePlayer(
+  rawName: string,
+  tour: Tour,
+  playersMap: Map<string, Player>,
+  playerIds: Map<string, string>,
+  registryIndex: Map<string, PlayerRegistryEntry>
+): Player {
+  const entry = registryIndex.get(registryKey(tour, rawName));
+  const name = entry?.name ?? rawName;
+
+  const key = registryKey(tour, name);
+  let player = playersMap.get(key);
+  if (!player) {
+    player = { id: entry?.id ?? playerIds.get(key)!, name, tour };
+    playersMap.set(key, player);
+  }
+
+  if (rawName !== name) {
+    player.aliases = player.aliases ?? [];
+    if (!player.aliases.includes(rawName)) player.aliases.push(rawName);
   }
-  return `t${Math.abs(hash)}`;
+  return player;
+}
+
+// Hex digits of the sha1 kept in an id (48 bits)
+const ID_HASH_LENGTH = 12;
+
+function tournamentKey(tour: Tour, year: number, tournament: string, location: string): string {
+  return `${tourIdPrefix(tour)}${year}-${tournament}-${location}`;
 }
 
-function createMatchID(
+function matchKey(
   tournamentId: string,
   date: string,
   round: string,
   winnerId: string,
   loserId: string
 ): string {
-  const str = `${tournamentId}-${date}-${round}-${winnerId}-${loserId}`;
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+  return `${tournamentId}-${date}-${round}-${winnerId}-${loserId}`;
+}
+
+/**
+ * Turn a tournament or match key into its id: a prefixed sha1 prefix, so ids
+ * do not depend on CSV order. Every id is recorded with its key, and two
+ * different keys sharing an id stop the ingest instead of silently merging
+ * two records.
+ */
+function claimId(claimed: Map<string, string>, prefix: 't' | 'm', key: string): string {
+  const id = `${prefix}${createHash('sha1').update(key).digest('hex').slice(0, ID_HASH_LENGTH)}`;
+  const owner = claimed.get(id);
+  if (owner !== undefined && owner !== key) {
+    throw new Error(`Id collision: ${id} is shared by "${owner}" and "${key}"`);
   }
-  return `m${Math.abs(hash)}`;
+  claimed.set(id, key);
+  return id;
 }
 
-function normalizeRound(round: string): Round {
+// Earlier rounds of an event are played first when dates tie
+const ROUND_SEQUENCE: Record<Round, number> = {
+  Q1: 0, Q2: 1, Q3: 2, RR: 3, '1R': 4, '2R': 5, '3R': 6, '4R': 7, QF: 8, SF: 9, F: 10
+};
+
+/**
+ * Number every match in chronological order. The date alone is not enough:
+ * before 2003 every match of an event carries its start date, and many
+ * matches share a day since, so ties go by tournament, then round, then CSV order.
+ */
+function assignMatchSequence(matches: Match[]) {
+  matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) =>
+      a.match.date.localeCompare(b.match.date) ||
+      a.match.tournamentId.localeCompare(b.match.tournamentId) ||
+      ROUND_SEQUENCE[a.match.round] - ROUND_SEQUENCE[b.match.round] ||
+      a.index - b.index
+    )
+    .forEach(({ match }, seq) => {
+      match.seq = seq;
+    });
+}
+
+// Bookmakers to read from the CSV; columns are `${book}W` / `${book}L`
+const BOOKMAKERS: Bookmaker[] = [
+  'B365', 'PS', 'Max', 'Avg', 'BFE',
+  'B&W', 'CB', 'EX', 'GB', 'IW', 'LB', 'SB', 'SJ', 'UB'
+];
+
+/**
+ * Convert a pair of decimal odds into implied probabilities.
+ * Returns null unless both prices are real (> 1.0) odds.
+ */
+function computeBookOdds(w: number | null, l: number | null): BookOdds | null {
+  if (w === null || l === null || w <= 1 || l <= 1) return null;
+  const wImplied = 1 / w;
+  const lImplied = 1 / l;
+  const book = wImplied + lImplied;
+  return {
+    w,
+    l,
+    wImplied,
+    lImplied,
+    overround: book - 1,
+    wProb: wImplied / book,
+    lProb: lImplied / book
+  };
+}
+
+function parseBooks(row: CSVRow): MatchOdds['books'] | null {
+  const books: MatchOdds['books'] = {};
+  for (const book of BOOKMAKERS) {
+    const odds = computeBookOdds(
+      normalizeNumber(row[`${book}W` as keyof CSVRow]),
+      normalizeNumber(row[`${book}L` as keyof CSVRow])
+    );
+    if (odds) books[book] = odds;
+  }
+  return Object.keys(books).length > 0 ? books : null;
+}
+
+function normalizeRound(round: string, onDefault?: DefaultHandler): Round {
   const normalized = (round || '').toLowerCase().trim();
   if (normalized.includes('1st round') || normalized === '1r') return '1R';
   if (normalized.includes('2nd round') || normalized === '2r') return '2R';
@@ -170,170 +371,144 @@ function normalizeRound(round: string): Round {
   if (normalized === 'q1' || normalized.includes('qualifying 1')) return 'Q1';
   if (normalized === 'q2' || normalized.includes('qualifying 2')) return 'Q2';
   if (normalized === 'q3' || normalized.includes('qualifying 3')) return 'Q3';
-  console.warn(`Unknown round type: ${round}. Defaulting to 1R.`);
+  onDefault?.('1R');
   return '1R'; // Default fallback
 }
 
-function normalizeSeries(series: string): Series {
+function normalizeSeries(series: string, onDefault?: DefaultHandler): Series {
   const normalized = (series || '').toUpperCase().trim();
   if (normalized.includes('GRAND SLAM')) return 'Grand Slam';
+  // "Masters Cup" is the season finale, not a Masters 1000 event
+  if (normalized.includes('MASTERS CUP')) return 'Masters Cup';
   if (normalized.includes('MASTERS')) return 'Masters';
   if (normalized.includes('ATP500')) return 'ATP500';
   if (normalized.includes('ATP250')) return 'ATP250';
+  // Pre-2009 names, checked longest first
+  if (normalized.includes('INTERNATIONAL GOLD')) return 'International Gold';
+  if (normalized.includes('INTERNATIONAL')) return 'International';
   // Fallback for empty/unknown series
-  return 'ATP250'; 
+  onDefault?.('ATP250');
+  return 'ATP250';
+}
+
+function normalizeTier(tier: string, onDefault?: DefaultHandler): WtaTier {
+  const normalized = (tier || '').toUpperCase().replace(/\s+/g, ' ').trim();
+  if (normalized.includes('GRAND SLAM')) return 'Grand Slam';
+  if (normalized.includes('CHAMPIONSHIPS')) return 'Tour Championships';
+  if (normalized.includes('ELITE')) return 'Elite Trophy';
+  const compact = normalized.replace(/ /g, '');
+  if (compact === 'WTA1000') return 'WTA1000';
+  if (compact === 'WTA500') return 'WTA500';
+  if (compact === 'WTA250') return 'WTA250';
+  if (normalized === 'PREMIER MANDATORY') return 'Premier Mandatory';
+  if (normalized === 'PREMIER 5') return 'Premier 5';
+  if (normalized === 'PREMIER') return 'Premier';
+  if (normalized === 'INTERNATIONAL') return 'International';
+  // Tier I-V, also written with digits
+  const tierMatch = normalized.match(/^TIER ?(I{1,3}|IV|V|[1-5])$/);
+  if (tierMatch) {
+    const roman = ['I', 'II', 'III', 'IV', 'V'];
+    const level = /\d/.test(tierMatch[1]) ? roman[parseInt(tierMatch[1]) - 1] : tierMatch[1];
+    return `Tier ${level}` as WtaTier;
+  }
+  onDefault?.('WTA250');
+  return 'WTA250';
 }
 
-function normalizeCourt(court: string): Court {
+function normalizeStatus(comment: string, onDefault?: DefaultHandler): MatchStatus {
+  const normalized = (comment || '').toLowerCase().trim();
+  if (normalized === 'completed') return 'Completed';
+  // Also catches the "Rrtired" typo in the source data
+  if (normalized.endsWith('tired')) return 'Retired';
+  if (normalized === 'walkover') return 'Walkover';
+  if (normalized === 'awarded') return 'Awarded';
+  onDefault?.('Completed');
+  return 'Completed';
+}
+
+function normalizeCourt(court: string, onDefault?: DefaultHandler): Court {
   const normalized = (court || '').toUpperCase().trim();
-  return normalized.includes('INDOOR') ? 'Indoor' : 'Outdoor';
+  if (normalized.includes('INDOOR')) return 'Indoor';
+  if (!normalized.includes('OUTDOOR')) onDefault?.('Outdoor');
+  return 'Outdoor';
 }
 
-function normalizeSurface(surface: string): Surface {
+function normalizeSurface(surface: string, onDefault?: DefaultHandler): Surface {
   const normalized = (surface || '').toUpperCase().trim();
   if (normalized.includes('HARD')) return 'Hard';
   if (normalized.includes('CLAY')) return 'Clay';
   if (normalized.includes('GRASS')) return 'Grass';
   if (normalized.includes('CARPET')) return 'Carpet';
   // Default fallback for empty/unknown surface
-  return 'Hard'; 
+  onDefault?.('Hard');
+  return 'Hard';
 }
 
-function computeDerived(match: Match): Derived {
+function computeDerived(match: Match, odds: MatchOdds | null, scoreStatus: ScoreStatus): Derived {
   const rankDiff = match.wRank && match.lRank ? match.wRank - match.lRank : null;
   const ptsDiff = match.wPts && match.lPts ? match.wPts - match.lPts : null;
   
+  // Walkovers and awarded matches were not played out, so their games and
+  // tiebreaks stay out of the match-length stats
+  const playedOut = match.status !== 'Walkover' && match.status !== 'Awarded';
+
   const totalGames = match.w.reduce((sum, w, i) => {
     const l = match.l[i] || 0;
     return sum + w + l;
   }, 0);
   
   const setsPlayed = match.wsets + match.lsets;
-  const straightSets = match.lsets === 0;
+  const straightSets = playedOut && match.lsets === 0;
   
-  const hasTiebreak = match.w.some((w, i) => {
+  const hasTiebreak = playedOut && match.w.some((w, i) => {
     const l = match.l[i] || 0;
     // Check for 7-6, 6-7, 7-5, 5-7 or any score involving 7.
     return (w === 7 && l >= 5) || (l === 7 && w >= 5);
   });
   
   const upset = match.wRank && match.lRank ? match.lRank < match.wRank : undefined;
+
+  // Market-based upset: the winner was the betting underdog
+  const winnerProb = getMarketWinnerProb(odds);
+  const marketUpset = winnerProb !== undefined ? winnerProb < 0.5 : undefined;
   
   return {
     matchId: match.id,
     rankDiff: rankDiff ?? undefined,
     ptsDiff: ptsDiff ?? undefined,
-    totalGames: totalGames > 0 ? totalGames : undefined,
+    totalGames: playedOut && totalGames > 0 ? totalGames : undefined,
     setsPlayed,
     straightSets,
     hasTiebreak,
-    upset
+    upset,
+    marketUpset,
+    upsetMagnitude: winnerProb,
+    scoreStatus
   };
 }
 
 // --- NEW BRACKET GENERATION ---
 
 /**
- * A map to define the tournament progression.
- * Key: The current round, Value: The round that feeds into it.
+ * Write a generated file only when its contents changed, so unchanged
+ * brackets keep their timestamps and stay out of diffs
  */
-const roundPrecedence: Partial<Record<Round, Round>> = {
-  F: 'SF',
-  SF: 'QF',
-  QF: '4R',
-  '4R': '3R',
-  '3R': '2R',
-  '2R': '1R',
-  '1R': 'Q3', // Example if you include qualifiers
-  Q3: 'Q2',
-  Q2: 'Q1',
-  // RR (Round Robin) does not fit this hierarchy and is skipped.
-};
-
-/**
- * Helper to format the match score from the 'w' and 'l' arrays.
- */
-function formatScore(w: number[], l: number[], comment?: string): string {
-  if (comment === 'Retired') {
-    return w.map((wScore, i) => `${wScore}-${l[i]}`).join(' ') + ' (RET)';
-  }
-  return w.map((wScore, i) => `${wScore}-${l[i]}`).join(' ');
+function writeIfChanged(filePath: string, contents: string): boolean {
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === contents) return false;
+  fs.writeFileSync(filePath, contents);
+  return true;
 }
 
 /**
- * The core recursive function.
- * Starts with a match (e.g., the Final) and finds the two
- * matches that fed into it (e.g., the two Semifinals).
+ * Delete files left over from earlier runs (a tournament that is gone, or
+ * whose id changed), returning how many were removed
  */
-function findChildrenForMatch(
-  currentMatch: Match,
-  allTournamentMatches: Match[],
-  playerMap: Map<string, Player>
-): BracketNode {
-  const winnerName = playerMap.get(currentMatch.winnerId)?.name || 'Unknown';
-  const loserName = playerMap.get(currentMatch.loserId)?.name || 'Unknown';
-  
-  // 1. Determine the round we're looking for (the "child" round)
-  const childRound = roundPrecedence[currentMatch.round];
-
-  // 2. Base Case: If there's no preceding round (e.g., 1R or Q1), we stop.
-  if (!childRound) {
-    return {
-      name: `${winnerName} d. ${loserName}`,
-      attributes: {
-        round: currentMatch.round,
-        winnerName,
-        loserName,
-        score: formatScore(currentMatch.w, currentMatch.l, currentMatch.comment),
-      },
-      children: [],
-    };
-  }
-
-  // 3. Find the two matches that fed into this one.
-  
-  // Find the winner's previous match
-  const winnerPrevMatch = allTournamentMatches.find(
-    (m) => m.round === childRound && m.winnerId === currentMatch.winnerId
-  );
-  
-  // Find the loser's previous match
-  const loserPrevMatch = allTournamentMatches.find(
-    (m) => m.round === childRound && m.winnerId === currentMatch.loserId
-  );
-
-  // 4. Recursion: Call this function for the matches we just found.
-  
-  // Create the "winner's side" child node
-  const child1 = winnerPrevMatch
-    ? findChildrenForMatch(winnerPrevMatch, allTournamentMatches, playerMap)
-    : {
-        name: winnerName, // Show the player who got a BYE
-        attributes: { round: childRound, winnerName: winnerName, loserName: 'BYE', score: 'BYE' },
-        children: [],
-      };
-      
-  // Create the "loser's side" child node
-  const child2 = loserPrevMatch
-    ? findChildrenForMatch(loserPrevMatch, allTournamentMatches, playerMap)
-    : {
-        name: loserName, // Show the player who got a BYE
-        attributes: { round: childRound, winnerName: loserName, loserName: 'BYE', score: 'BYE' },
-        children: [],
-      };
-
-  // 5. Return the current node with its new children
-  return {
-    name: `${winnerName} d. ${loserName}`,
-    attributes: {
-      round: currentMatch.round,
-      winnerName,
-      loserName,
-      score: formatScore(currentMatch.w, currentMatch.l, currentMatch.comment),
-    },
-    // The winner's match is conventionally on top
-    children: [child1, child2], 
-  };
+function removeStaleFiles(dir: string, generatedIds: Set<string>): number {
+  const stale = fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.json') && !generatedIds.has(path.basename(file, '.json')));
+  stale.forEach(file => fs.unlinkSync(path.join(dir, file)));
+  return stale.length;
 }
 
 /**
@@ -347,13 +522,19 @@ export function generateBracketData(
 ) {
   console.log('\nGenerating bracket data...');
   const bracketDir = path.join(process.cwd(), 'public', 'data', 'brackets');
-  if (!fs.existsSync(bracketDir)) {
-    fs.mkdirSync(bracketDir, { recursive: true });
+  const groupsDir = path.join(process.cwd(), 'public', 'data', 'groups');
+  for (const dir of [bracketDir, groupsDir]) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
   }
 
   // Create a Map of player IDs for fast lookups
   const playerMap = new Map<string, Player>(allPlayers.map((p) => [p.id, p]));
-  let bracketsGenerated = 0;
+  const bracketIds = new Set<string>();
+  const groupStageIds = new Set<string>();
+  let bracketsWritten = 0;
+  let groupStagesWritten = 0;
 
   for (const tournament of allTournaments) {
     // 1. Get all matches for this specific tournament
@@ -362,10 +543,18 @@ export function generateBracketData(
     );
     if (tournamentMatches.length === 0) continue;
 
-    // 2. Find the Final match to start the tree
-    const finalMatch = tournamentMatches.find((m) => m.round === 'F');
-    
-    if (!finalMatch) {
+    // Round-robin events also get their group tables
+    const groupStage = buildGroupStage(tournament.id, tournamentMatches, playerMap);
+    if (groupStage) {
+      const groupsPath = path.join(groupsDir, `${tournament.id}.json`);
+      if (writeIfChanged(groupsPath, JSON.stringify(groupStage, null, 2))) groupStagesWritten++;
+      groupStageIds.add(tournament.id);
+    }
+
+    // 2. Rebuild the draw from the Final down
+    const bracketTree = buildBracket(tournamentMatches, playerMap);
+
+    if (!bracketTree) {
       // Don't warn for Round Robin tournaments, it's expected
       if (!tournamentMatches.some(m => m.round === 'RR')) {
         console.warn(`  - No Final found for ${tournament.name}, skipping bracket.`);
@@ -373,25 +562,251 @@ export function generateBracketData(
       continue;
     }
 
-    // 3. Build the recursive tree
-    const bracketTree = findChildrenForMatch(
-      finalMatch,
-      tournamentMatches,
-      playerMap
+    // 3. Write the JSON file, leaving unchanged brackets untouched
+    const bracketPath = path.join(bracketDir, `${tournament.id}.json`);
+    if (writeIfChanged(bracketPath, JSON.stringify(bracketTree, null, 2))) bracketsWritten++;
+    bracketIds.add(tournament.id);
+  }
+
+  const staleFiles = removeStaleFiles(bracketDir, bracketIds) + removeStaleFiles(groupsDir, groupStageIds);
+  if (staleFiles > 0) console.log(`Removed ${staleFiles} stale bracket and group files.`);
+  
+  console.log(`Successfully generated ${bracketIds.size} bracket files (${bracketsWritten} changed).`);
+  console.log(`Successfully generated ${groupStageIds.size} group stages (${groupStagesWritten} changed).`);
+}
+
+// --- END NEW BRACKET GENERATION ---
+
+
+// --- CSV PARSE STAGE (cached per file) ---
+
+// Bump whenever the parse stage changes so cached files are parsed again
+const PARSE_CACHE_VERSION = 5;
+const CACHE_DIR = path.join(process.cwd(), '.cache', 'ingest');
+// The validation report is for whoever runs ingest, so it stays out of the deployed data
+const REPORT_PATH = path.join(process.cwd(), '.cache', 'validation-report.json');
+
+/**
+ * Tournament fields, normalized from the first kept row of each tournament
+ */
+interface ParsedTournament {
+  key: string;
+  tour: Tour;
+  year: number;
+  name: string;
+  location: string;
+  series: Series;
+  court: Court;
+  surface: Surface;
+}
+
+/**
+ * One kept CSV row after normalization. Player names stay raw: ids are
+ * assigned in the consolidation stage once every file is read, so they come
+ * out the same whether or not a file came from the cache.
+ */
+interface ParsedRow {
+  line: number;
+  tournamentKey: string;
+  date: string;
+  round: Round;
+  bestOf: 3 | 5;
+  winnerName: string;
+  loserName: string;
+  wRank?: number;
+  lRank?: number;
+  wPts?: number;
+  lPts?: number;
+  w: number[];
+  l: number[];
+  wsets: number;
+  lsets: number;
+  status: MatchStatus;
+  books: MatchOdds['books'] | null;
+}
+
+interface ParsedFile {
+  version: number;
+  hash: string; // sha256 of the CSV contents
+  file: string;
+  tour: Tour;
+  rowsRead: number;
+  tournaments: ParsedTournament[];
+  rows: ParsedRow[];
+  issues: ValidationIssue[]; // Skipped and defaulted rows
+}
+
+/**
+ * Normalize every row of one year CSV. Depends only on the file contents.
+ */
+function parseCsvFile(csvFile: string, csvContent: string, hash: string): ParsedFile {
+  // Use d3-dsv to parse
+  const rows = csvParse(csvContent) as unknown as CSVRow[];
+  const tour = tourFromFile(csvFile);
+  const report = createValidationReport();
+  const tournaments = new Map<string, ParsedTournament>();
+  const parsedRows: ParsedRow[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    // Line 1 is the header row
+    const rowLocation = { file: csvFile, line: index + 2 };
+
+    const missingFields = (['Tournament', 'Winner', 'Loser', 'Date'] as const).filter(
+      field => !row[field]
     );
+    if (missingFields.length > 0) {
+      recordSkip(report, rowLocation, 'Missing essential data', { field: missingFields.join(', ') });
+      continue;
+    }
+    
+    const date = parseDate(row.Date);
+    if (!date) {
+      recordSkip(report, rowLocation, 'Invalid date', { field: 'Date', value: row.Date });
+      continue; // Skip rows with invalid dates
+    }
 
-    // 4. Write the final JSON file
-    fs.writeFileSync(
-      path.join(bracketDir, `${tournament.id}.json`),
-      JSON.stringify(bracketTree, null, 2)
+    const year = parseInt(date.substring(0, 4));
+    const round = normalizeRound(row.Round, fallback =>
+      recordDefault(report, rowLocation, 'Round', row.Round, fallback)
     );
-    bracketsGenerated++;
+    const rawBestOf = normalizeNumber(row['Best of']);
+    if (rawBestOf !== 3 && rawBestOf !== 5) {
+      recordDefault(report, rowLocation, 'Best of', row['Best of'], '3');
+    }
+    const bestOf = rawBestOf === 5 ? 5 : 3;
+    
+    const winnerName = normalizeValue(row.Winner);
+    const loserName = normalizeValue(row.Loser);
+    if (!winnerName || !loserName) {
+      recordSkip(report, rowLocation, 'Blank player name', {
+        field: !winnerName ? 'Winner' : 'Loser',
+        value: !winnerName ? row.Winner : row.Loser
+      });
+      continue;
+    }
+
+    const tournamentName = normalizeValue(row.Tournament) || 'Unknown Tournament';
+    const location = normalizeValue(row.Location) || 'Unknown Location';
+    if (!normalizeValue(row.Tournament)) {
+      recordDefault(report, rowLocation, 'Tournament', row.Tournament, tournamentName);
+    }
+    if (!normalizeValue(row.Location)) {
+      recordDefault(report, rowLocation, 'Location', row.Location, location);
+    }
+    const tournamentKey = `${tour}-${year}-${tournamentName}-${location}`;
+    
+    const w: number[] = [];
+    const l: number[] = [];
+    for (let i = 1; i <= 5; i++) {
+      const wScore = normalizeNumber(row[`W${i}` as keyof CSVRow]);
+      const lScore = normalizeNumber(row[`L${i}` as keyof CSVRow]);
+      // Only push if both scores are present
+      if (wScore !== null && lScore !== null) {
+        w.push(wScore);
+        l.push(lScore);
+      } else if (wScore !== null || lScore !== null) {
+        // Handle partial scores (e.g., retirement)
+        w.push(wScore ?? 0);
+        l.push(lScore ?? 0);
+      } else {
+        // Stop if we hit empty sets
+        break;
+      }
+    }
+    
+    // Handle cases where sets are 0-0 but the match ended early
+    const wsets = normalizeNumber(row.Wsets);
+    const lsets = normalizeNumber(row.Lsets);
+    const status = normalizeStatus(row.Comment, fallback =>
+      recordDefault(report, rowLocation, 'Comment', row.Comment, fallback)
+    );
+
+    // Skip match if no sets were played and it supposedly went the distance
+    if (w.length === 0 && (wsets === 0 && lsets === 0) && status === 'Completed') {
+      recordSkip(report, rowLocation, 'No score data', { field: 'Comment', value: row.Comment ?? '' });
+      continue;
+    }
+
+    if (!tournaments.has(tournamentKey)) {
+      tournaments.set(tournamentKey, {
+        key: tournamentKey,
+        tour,
+        year,
+        name: tournamentName,
+        location,
+        series: tour === 'WTA'
+          ? normalizeTier(row.Tier ?? '', fallback =>
+              recordDefault(report, rowLocation, 'Tier', row.Tier, fallback)
+            )
+          : normalizeSeries(row.Series ?? '', fallback =>
+              recordDefault(report, rowLocation, 'Series', row.Series, fallback)
+            ),
+        court: normalizeCourt(row.Court, fallback =>
+          recordDefault(report, rowLocation, 'Court', row.Court, fallback)
+        ),
+        surface: normalizeSurface(row.Surface, fallback =>
+          recordDefault(report, rowLocation, 'Surface', row.Surface, fallback)
+        )
+      });
+    }
+
+    parsedRows.push({
+      line: rowLocation.line,
+      tournamentKey,
+      date,
+      round,
+      bestOf,
+      winnerName,
+      loserName,
+      wRank: normalizeNumber(row.WRank) ?? undefined,
+      lRank: normalizeNumber(row.LRank) ?? undefined,
+      wPts: normalizeNumber(row.WPts) ?? undefined,
+      lPts: normalizeNumber(row.LPts) ?? undefined,
+      w,
+      l,
+      wsets: wsets ?? 0,
+      lsets: lsets ?? 0,
+      status,
+      books: parseBooks(row)
+    });
   }
-  
-  console.log(`Successfully generated ${bracketsGenerated} bracket files.`);
+
+  return {
+    version: PARSE_CACHE_VERSION,
+    hash,
+    file: csvFile,
+    tour,
+    rowsRead: rows.length,
+    tournaments: Array.from(tournaments.values()),
+    rows: parsedRows,
+    issues: report.issues
+  };
 }
 
-// --- END NEW BRACKET GENERATION ---
+/**
+ * Parse a CSV, or reuse its cached parse when the contents hash is unchanged
+ */
+function loadParsedFile(csvFile: string, useCache: boolean): { parsed: ParsedFile; cached: boolean } {
+  const csvContent = fs.readFileSync(path.join(process.cwd(), csvFile), 'utf-8');
+  const hash = createHash('sha256').update(csvContent).digest('hex');
+  const cachePath = path.join(CACHE_DIR, `${csvFile}.json`);
+
+  if (useCache && fs.existsSync(cachePath)) {
+    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as ParsedFile;
+    if (cached.version === PARSE_CACHE_VERSION && cached.hash === hash) {
+      return { parsed: cached, cached: true };
+    }
+  }
+
+  const parsed = parseCsvFile(csvFile, csvContent, hash);
+  if (!fs.existsSync(CACHE_DIR)) {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+  }
+  fs.writeFileSync(cachePath, JSON.stringify(parsed));
+  return { parsed, cached: false };
+}
+
+// --- END CSV PARSE STAGE ---
 
 
 // --- Main Ingestion Function ---
@@ -400,23 +815,23 @@ async function ingest() {
   console.log('Starting consolidated data ingestion...');
   
   // --- 1. Define CONSOLIDATED data structures (outside the loop) ---
-  const playersMap = new Map<string, Player>();
-  const playerIDs = new Map<string, number>(); // Track duplicates
+  const playersMap = new Map<string, Player>(); // Keyed by tour and canonical name
+  const registryIndex = buildRegistryIndex(playerRegistry.players);
   const tournamentsMap = new Map<string, Tournament>();
+  const claimedIds = new Map<string, string>(); // id -> key it was made from
+  const matchRows = new Map<string, RowLocation>(); // match key -> first row with it
   const allMatches: Match[] = [];
   const allDerived: Derived[] = [];
+  const allOdds: Record<string, MatchOdds> = {};
+  const report = createValidationReport();
 
   // --- 2. Find all CSV files ---
   const rootDir = process.cwd();
-  // Find files that match the pattern "2024.csv", "2025.csv", etc.
-  // Updated regex to handle potential prefixes or different names, as long as it *ends* with 4 digits.
-  // Let's stick to the original, safer regex:
-  const csvFiles = fs.readdirSync(rootDir).filter(file => 
-    file.endsWith('.csv') && /^\d{4}\.csv$/.test(file)
-  );
+  // Find files that match the pattern "2024.csv", "2025w.csv", etc.
+  const csvFiles = fs.readdirSync(rootDir).filter(file => CSV_FILE_PATTERN.test(file));
 
   if (csvFiles.length === 0) {
-    console.error('No year CSV files (e.g., 2024.csv) found in the root directory.');
+    console.error('No year CSV files (e.g., 2024.csv, or 2024w.csv for the WTA) found in the root directory.');
     // Check for common issues
     if (fs.existsSync('atp_matches_2024.csv')) {
          console.error('Hint: Found "atp_matches_2024.csv". The script expects "2024.csv". Please rename your files.');
@@ -426,150 +841,189 @@ async function ingest() {
 
   console.log(`Found CSV files to process: ${csvFiles.join(', ')}`);
 
-  // --- 3. Loop through each file ---
-  for (const csvFile of csvFiles) {
-    console.log(`\n--- Processing ${csvFile} ---`);
-    const csvPath = path.join(rootDir, csvFile);
-    const csvContent = fs.readFileSync(csvPath, 'utf-8');
-    
-    // Use d3-dsv to parse
-    const rows = csvParse(csvContent) as unknown as CSVRow[];
-    
-    console.log(`Loaded ${rows.length} rows from ${csvFile}`);
-    
+  // --- 3. Parse every file (or load it from the cache), then give each player an id ---
+  const parsedFiles = csvFiles.map(csvFile => ({ csvFile, ...loadParsedFile(csvFile, useCache) }));
+  const playerIds = assignPlayerIds(parsedFiles.map(({ parsed }) => parsed), registryIndex);
+
+  for (const { csvFile, parsed, cached } of parsedFiles) {
+    console.log(
+      cached
+        ? `\n--- ${csvFile} unchanged (${parsed.hash.slice(0, 8)}), using cached parse ---`
+        : `\n--- Parsed ${csvFile} (${parsed.rowsRead} rows) ---`
+    );
+    const issuesBefore = report.issues.length;
+    report.issues.push(...parsed.issues);
+
+    // Create tournament IDs (uses shared tournamentsMap)
+    for (const t of parsed.tournaments) {
+      if (tournamentsMap.has(t.key)) continue;
+      tournamentsMap.set(t.key, {
+        id: claimId(claimedIds, 't', tournamentKey(t.tour, t.year, t.name, t.location)),
+        eventId: '', // Assigned once every file is read
+        tour: t.tour,
+        year: t.year,
+        name: t.name,
+        location: t.location,
+        series: t.series,
+        court: t.court,
+        surface: t.surface
+      });
+    }
+
+    // --- 4. Consolidate each row (using the SHARED maps) ---
     let rowsProcessed = 0;
+    for (const row of parsed.rows) {
+      const rowLocation = { file: csvFile, line: row.line };
 
-    // --- 4. Process each row (using the SHARED maps) ---
-    for (const row of rows) {
-      if (!row.Tournament || !row.Winner || !row.Loser || !row.Date) {
-        // console.warn('Skipping row with missing essential data:', row);
-        continue;
-      }
+      // Create/get player IDs (uses shared playersMap and the alias registry)
+      const winner = resolvePlayer(row.winnerName, parsed.tour, playersMap, playerIds, registryIndex);
+      const loser = resolvePlayer(row.loserName, parsed.tour, playersMap, playerIds, registryIndex);
+      const tournament = tournamentsMap.get(row.tournamentKey)!;
       
-      const date = parseDate(row.Date);
-      if (!date) {
-        // console.warn('Skipping row with invalid date:', row.Date);
-        continue; // Skip rows with invalid dates
+      // A repeated CSV line describes the same match again: keep the first
+      const key = matchKey(tournament.id, row.date, row.round, winner.id, loser.id);
+      const firstRow = matchRows.get(key);
+      if (firstRow) {
+        recordSkip(report, rowLocation, 'Duplicate row', { value: `${firstRow.file}:${firstRow.line}` });
+        continue;
       }
+      matchRows.set(key, rowLocation);
 
-      const year = parseInt(date.substring(0, 4));
-      const round = normalizeRound(row.Round);
-      const bestOf = normalizeNumber(row['Best of']) === 5 ? 5 : 3;
-      
-      const winnerName = normalizeValue(row.Winner);
-      const loserName = normalizeValue(row.Loser);
-      if (!winnerName || !loserName) continue; // Should be caught by first check, but good safety
-
-      // Create/get player IDs (uses shared playersMap)
-      if (!playersMap.has(winnerName)) {
-        const winnerId = createPlayerID(winnerName, playerIDs);
-        playersMap.set(winnerName, { id: winnerId, name: winnerName });
-      }
-      if (!playersMap.has(loserName)) {
-        const loserId = createPlayerID(loserName, playerIDs);
-        playersMap.set(loserName, { id: loserId, name: loserName });
-      }
-      
-      const winner = playersMap.get(winnerName)!;
-      const loser = playersMap.get(loserName)!;
-      
-      // Create/get tournament ID (uses shared tournamentsMap)
-      const tournamentName = normalizeValue(row.Tournament) || 'Unknown Tournament';
-      const location = normalizeValue(row.Location) || 'Unknown Location';
-      const tournamentKey = `${year}-${tournamentName}-${location}`;
-      
-      if (!tournamentsMap.has(tournamentKey)) {
-        const tournamentId = createTournamentID(year, tournamentName, location);
-        tournamentsMap.set(tournamentKey, {
-          id: tournamentId,
-          year,
-          name: tournamentName,
-          location,
-          series: normalizeSeries(row.Series),
-          court: normalizeCourt(row.Court),
-          surface: normalizeSurface(row.Surface)
-        });
-      }
-      
-      const tournament = tournamentsMap.get(tournamentKey)!;
-      
       // Create match ID
-      const matchId = createMatchID(
-        tournament.id,
-        date,
-        round,
-        winner.id,
-        loser.id
-      );
-      
-      const w: number[] = [];
-      const l: number[] = [];
-      for (let i = 1; i <= 5; i++) {
-        const wScore = normalizeNumber(row[`W${i}` as keyof CSVRow]);
-        const lScore = normalizeNumber(row[`L${i}` as keyof CSVRow]);
-        // Only push if both scores are present
-        if (wScore !== null && lScore !== null) {
-          w.push(wScore);
-          l.push(lScore);
-        } else if (wScore !== null || lScore !== null) {
-          // Handle partial scores (e.g., retirement)
-          w.push(wScore ?? 0);
-          l.push(lScore ?? 0);
-        } else {
-          // Stop if we hit empty sets
-          break;
-        }
-      }
-      
-      // Handle cases where sets are 0-0 but comment is 'Retired'
-      const wsets = normalizeNumber(row.Wsets);
-      const lsets = normalizeNumber(row.Lsets);
-      const comment = normalizeValue(row.Comment);
-
-      // Skip match if no sets were played and it wasn't a walkover/retirement
-      if (w.length === 0 && (wsets === 0 && lsets === 0) && comment !== 'Retired' && comment !== 'Walkover') {
-        // console.log('Skipping match with no score data:', row);
-        continue;
-      }
+      const matchId = claimId(claimedIds, 'm', key);
       
       const match: Match = {
         id: matchId,
         tournamentId: tournament.id,
-        date,
-        round,
-        bestOf,
+        date: row.date,
+        seq: 0, // Assigned once every file is read
+        round: row.round,
+        bestOf: row.bestOf,
         winnerId: winner.id,
         loserId: loser.id,
-        wRank: normalizeNumber(row.WRank) ?? undefined,
-        lRank: normalizeNumber(row.LRank) ?? undefined,
-        wPts: normalizeNumber(row.WPts) ?? undefined,
-        lPts: normalizeNumber(row.LPts) ?? undefined,
-        w,
-        l,
-        wsets: wsets ?? 0,
-        lsets: lsets ?? 0,
-        comment: comment ?? undefined
+        wRank: row.wRank,
+        lRank: row.lRank,
+        wPts: row.wPts,
+        lPts: row.lPts,
+        w: row.w,
+        l: row.l,
+        wsets: row.wsets,
+        lsets: row.lsets,
+        status: row.status
       };
       
       // Add to SHARED allMatches array
       allMatches.push(match);
       
+      // Keep bookmaker odds in a separate dataset keyed by match id
+      const odds: MatchOdds | null = row.books ? { matchId, books: row.books } : null;
+      if (odds) allOdds[matchId] = odds;
+
+      // Check set scores against Wsets/Lsets and the best-of format
+      const scoreCheck = checkScore(match);
+      if (scoreCheck.status === 'corrupt') {
+        recordFlag(report, rowLocation, 'Inconsistent score', formatSets(match), scoreCheck.issues.join('; '));
+      }
+
       // Compute derived and add to SHARED allDerived array
-      const derivedMatch = computeDerived(match);
+      const derivedMatch = computeDerived(match, odds, scoreCheck.status);
       allDerived.push(derivedMatch);
       rowsProcessed++;
     }
     console.log(`Successfully processed ${rowsProcessed} rows from ${csvFile}`);
+
+    const fileIssues = report.issues.slice(issuesBefore);
+    report.files.push({
+      file: csvFile,
+      rowsRead: parsed.rowsRead,
+      rowsProcessed,
+      skipped: fileIssues.filter(i => i.action === 'skipped').length,
+      defaulted: new Set(fileIssues.filter(i => i.action === 'defaulted').map(i => i.line)).size,
+      flagged: fileIssues.filter(i => i.action === 'flagged').length
+    });
   } // --- End of file loop ---
   
   // --- 5. Convert consolidated maps to arrays (AFTER loop) ---
   const players = Array.from(playersMap.values());
   const tournaments = Array.from(tournamentsMap.values());
+  const roster = applyRoster(players, rootDir, report);
+  const lookupCountries = applyPlayerCountries(players, playerCountries);
+
+  // Tie each edition to its event across renames and moves
+  const fuzzyEvents = assignEvents(
+    tournaments,
+    buildEventIndex(eventRegistry.events),
+    t => `${tourIdPrefix(t.tour)}${slugify(`${t.name} ${t.location}`)}`
+  );
+  const eventReport = applyEventMetadata(tournaments, eventRegistry.events);
+
+  // --- 5b. Elo pass: number matches chronologically, then walk them in that order ---
+  assignMatchSequence(allMatches);
+  const tournamentsById = new Map(tournaments.map(t => [t.id, t]));
+  const elo = computeEloRatings(allMatches, m => tournamentsById.get(m.tournamentId)?.surface);
+  for (const derived of allDerived) {
+    const ratings = elo.preMatch.get(derived.matchId);
+    if (!ratings) continue;
+    derived.wElo = ratings.wElo;
+    derived.lElo = ratings.lElo;
+    derived.wSurfaceElo = ratings.wSurfaceElo;
+    derived.lSurfaceElo = ratings.lSurfaceElo;
+    derived.eloWinProb = ratings.eloWinProb;
+  }
   
   console.log('\n--- Totals ---');
-  console.log(`Processed ${players.length} unique players`);
-  console.log(`Processed ${tournaments.length} unique tournaments`);
+  const perTour = (items: Array<{ tour: Tour }>) =>
+    (['ATP', 'WTA'] as Tour[]).map(tour => `${tour} ${items.filter(i => i.tour === tour).length}`).join(', ');
+  console.log(`Processed ${players.length} unique players (${perTour(players)})`);
+  console.log(
+    roster
+      ? `Roster details for ${roster.matched} players from ${roster.file}`
+      : 'No roster file (roster.json or roster.csv), players have names and countries only'
+  );
+  console.log(`Countries for ${lookupCountries} players from playerCountries.json`);
+  console.log(`Processed ${tournaments.length} unique tournaments (${perTour(tournaments)})`);
+  console.log(`Grouped into ${new Set(tournaments.map(t => t.eventId)).size} events`);
   console.log(`Processed ${allMatches.length} total matches`);
+  console.log(`Found odds for ${Object.keys(allOdds).length} matches`);
+
+  // Names that slugged onto a taken id, or look like another player's spelling
+  const collidedPlayers = players.filter(p => /-\d+$/.test(p.id));
+  const suspectedDuplicates = findSuspectedDuplicates(players);
+  if (collidedPlayers.length > 0 || suspectedDuplicates.length > 0) {
+    console.warn('\n--- Player identity report (see src/data/playerRegistry.json) ---');
+    collidedPlayers.forEach(p => console.warn(`  - Id collision: "${p.name}" was assigned ${p.id}`));
+    suspectedDuplicates.forEach(group => {
+      console.warn(`  - Suspected duplicate: ${group.map(p => `"${p.name}" (${p.id})`).join(', ')}`);
+    });
+  }
+
+  // Players entered with a top-100 ranking that neither the roster nor the lookup places
+  const playersById = new Map(players.map(p => [p.id, p]));
+  const withoutCountry = new Set<string>();
+  allMatches.forEach(m => {
+    if (m.wRank !== undefined && m.wRank <= 100 && !playersById.get(m.winnerId)?.country) withoutCountry.add(m.winnerId);
+    if (m.lRank !== undefined && m.lRank <= 100 && !playersById.get(m.loserId)?.country) withoutCountry.add(m.loserId);
+  });
+  if (withoutCountry.size > 0) {
+    console.warn('\n--- Player country report (see src/data/playerCountries.json) ---');
+    withoutCountry.forEach(id => console.warn(`  - No country: "${playersById.get(id)?.name}" (${id})`));
+  }
+
+  // Editions joined to an event by name similarity rather than the registry,
+  // editions of events it does not list, and series it does not expect
+  const { unmapped, categoryMismatches } = eventReport;
+  if (fuzzyEvents.length > 0 || unmapped.length > 0 || categoryMismatches.length > 0) {
+    console.warn(`\n--- Event registry report (see src/data/eventRegistry.json, version ${eventRegistry.version}) ---`);
+    fuzzyEvents.forEach(({ tournament, eventId, matchedName }) => {
+      console.warn(`  - Matched by name: ${tournament.year} "${tournament.name}" (${tournament.location}) to "${matchedName}" as ${eventId}`);
+    });
+    unmapped.forEach(t => {
+      console.warn(`  - Unmapped: ${t.year} "${t.name}" (${t.location}) as ${t.eventId}`);
+    });
+    categoryMismatches.forEach(({ tournament: t, expected }) => {
+      console.warn(`  - Category: ${t.year} "${t.name}" is ${t.series}, registry has ${expected ?? 'no category that year'}`);
+    });
+  }
   
   // --- 6. Create output directory ---
   const outputDir = path.join(process.cwd(), 'public', 'data');
@@ -588,6 +1042,15 @@ async function ingest() {
     JSON.stringify(tournaments, null, 2)
   );
   
+  const catalog: EventCatalog = {
+    version: eventRegistry.version,
+    events: eventRegistry.events.map(({ names: _names, locations: _locations, ...metadata }) => metadata)
+  };
+  fs.writeFileSync(
+    path.join(outputDir, 'events.json'),
+    JSON.stringify(catalog, null, 2)
+  );
+  
   fs.writeFileSync(
     path.join(outputDir, 'matches.json'),
     JSON.stringify(allMatches, null, 2)
@@ -597,14 +1060,42 @@ async function ingest() {
     path.join(outputDir, 'derived.json'),
     JSON.stringify(allDerived, null, 2)
   );
+
+  fs.writeFileSync(
+    path.join(outputDir, 'elo.json'),
+    JSON.stringify(Object.fromEntries(elo.history), null, 2)
+  );
+
+  fs.writeFileSync(
+    path.join(outputDir, 'odds.json'),
+    JSON.stringify(allOdds, null, 2)
+  );
   
   // --- 8. NEW STEP: Generate Bracket Data ---
   generateBracketData(allMatches, players, tournaments);
   // -------------------------------------------
   
+  // --- 9. Validation report: every skipped or defaulted row ---
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, JSON.stringify(report, null, 2));
+  printValidationSummary(report);
+  console.log(`Validation report written to ${REPORT_PATH}`);
+  
   console.log('\nConsolidated data ingestion complete!');
   console.log(`Output files written to ${outputDir} and ${path.join(outputDir, 'brackets')}`);
+
+  // Strict mode fails the run so bad rows are fixed before publishing
+  if (strict && report.issues.length > 0) {
+    console.error(`\nStrict mode: ${report.issues.length} skipped, defaulted or flagged rows (see .cache/validation-report.json)`);
+    process.exitCode = 1;
+  }
 }
 
-// Run ingestion
-ingest().catch(console.error);
\ No newline at end of file
+// Run ingestion (pass --strict to exit non-zero on any validation issue,
+// --no-cache to re-parse every CSV)
+const strict = process.argv.includes('--strict');
+const useCache = !process.argv.includes('--no-cache');
+ingest().catch(err => {
+  console.error(err);
+  process.exitCode = 1;
+});
\ No newline at end of file
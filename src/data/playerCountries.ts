@@ -0,0 +1,55 @@
+/**
+ * Player Countries
+ *
+ * The CSVs do not say where players are from. playerCountries.json maps
+ * player ids to IOC country codes and ships with the repo, so the Nations
+ * view works without a roster file. It covers every player who entered a
+ * match with a top-100 ranking; a roster country takes precedence.
+ *
+ * To maintain: when ingest reports top-100 players without a country, add
+ * them by the id they have in players.json. Bump `version` when entries change
+ * meaning.
+ * Run: npm run ingest
+ */
+
+import type { Player } from '../types';
+import lookupFile from './playerCountries.json';
+
+export interface PlayerCountryLookup {
+  version: number;
+  countries: Record<string, string>; // Player id -> IOC code
+}
+
+/**
+ * Fail loudly on lookup entries ingest cannot use
+ */
+function checkPlayerCountries(lookup: PlayerCountryLookup): PlayerCountryLookup {
+  if (!Number.isInteger(lookup.version)) {
+    throw new Error('Player countries: playerCountries.json has no version');
+  }
+
+  Object.entries(lookup.countries).forEach(([playerId, country]) => {
+    if (!/^[A-Z]{3}$/.test(country)) {
+      throw new Error(`Player countries: "${playerId}" has "${country}", expected a three-letter IOC code`);
+    }
+  });
+
+  return lookup;
+}
+
+export const playerCountries = checkPlayerCountries(lookupFile as PlayerCountryLookup);
+
+/**
+ * Give every player without a roster country the one in the lookup.
+ * Returns how many players got a country from it.
+ */
+export function applyPlayerCountries(players: Player[], lookup: PlayerCountryLookup): number {
+  let applied = 0;
+  players.forEach(player => {
+    const country = lookup.countries[player.id];
+    if (player.country || !country) return;
+    player.country = country;
+    applied++;
+  });
+  return applied;
+}
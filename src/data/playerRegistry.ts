@@ -0,0 +1,150 @@
+/**
+ * Player Alias Registry
+ *
+ * The CSVs spell some players differently across files ("Mcdonald M." vs
+ * "McDonald M.", "Varillas J. P." vs "Varillas J.P."). Every entry in
+ * playerRegistry.json pins one player to a fixed id and canonical name, and
+ * lists the other spellings that ingest should merge into it.
+ *
+ * To maintain: when ingest reports a suspected duplicate that is really the
+ * same person, add an entry to playerRegistry.json. Pin `id` to the id the
+ * player already has so links and bookmarks keep working. Spellings only
+ * match within the entry's tour. Bump `version` when entries change meaning.
+ * Run: npm run ingest
+ */
+
+import { isTour } from '../utils/tour';
+import type { Player, Tour } from '../types';
+import registryFile from './playerRegistry.json';
+
+export interface PlayerRegistryEntry {
+  id: string;
+  tour: Tour;
+  name: string; // Canonical spelling written to players.json
+  aliases: string[]; // Other spellings found in the CSVs
+}
+
+export interface PlayerRegistry {
+  version: number;
+  players: PlayerRegistryEntry[];
+}
+
+/**
+ * Fail loudly on registry entries ingest cannot use
+ */
+function checkPlayerRegistry(registry: PlayerRegistry): PlayerRegistry {
+  if (!Number.isInteger(registry.version)) {
+    throw new Error('Player registry: playerRegistry.json has no version');
+  }
+
+  for (const entry of registry.players) {
+    if (!isTour(entry.tour)) {
+      throw new Error(`Player registry: "${entry.id}" has an unknown tour "${entry.tour}"`);
+    }
+  }
+
+  return registry;
+}
+
+export const playerRegistry = checkPlayerRegistry(registryFile as PlayerRegistry);
+
+/**
+ * Index key for a spelling on one tour
+ */
+export function registryKey(tour: Tour, name: string): string {
+  return `${tour}|${name}`;
+}
+
+/**
+ * Index the registry by tour and every spelling, failing loudly on conflicting entries
+ */
+export function buildRegistryIndex(entries: PlayerRegistryEntry[]): Map<string, PlayerRegistryEntry> {
+  const byName = new Map<string, PlayerRegistryEntry>();
+  const ids = new Set<string>();
+
+  for (const entry of entries) {
+    if (ids.has(entry.id)) {
+      throw new Error(`Player registry: id "${entry.id}" is used by more than one entry`);
+    }
+    ids.add(entry.id);
+
+    for (const name of [entry.name, ...entry.aliases]) {
+      const key = registryKey(entry.tour, name);
+      const existing = byName.get(key);
+      if (existing) {
+        throw new Error(`Player registry: "${name}" is listed under both "${existing.id}" and "${entry.id}"`);
+      }
+      byName.set(key, entry);
+    }
+  }
+
+  return byName;
+}
+
+interface LooseName {
+  surname: string[]; // Accent- and punctuation-free surname words
+  initial: string;
+}
+
+/**
+ * Loose identity of a CSV spelling: the surname split into words at spaces
+ * and hyphens, plus the first initial. "Varillas J. P." becomes varillas + j.
+ */
+function looseName(name: string): LooseName {
+  const plain = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const match = plain.match(/^(.*?)\s+([a-z])[a-z]*\.(.*)$/);
+  const words = (surname: string) =>
+    surname
+      .split(/[\s-]+/)
+      .map(word => word.replace(/[^a-z]/g, ''))
+      .filter(word => word !== '');
+  if (!match) return { surname: words(plain), initial: '' };
+  return { surname: words(match[1]), initial: match[2] };
+}
+
+/**
+ * Two spellings look like one player when they share the initial and either
+ * spell the same surname apart from punctuation ("Mcdonald M." and
+ * "McDonald M.") or one surname is the leading words of the other
+ * ("Ramos A." and "Ramos-Vinolas A.", "Mpetshi G." and "Mpetshi Perricard G.").
+ */
+function looksAlike(a: LooseName, b: LooseName): boolean {
+  if (a.initial !== b.initial) return false;
+  if (a.surname.join('') === b.surname.join('')) return true;
+  const [shorter, longer] = a.surname.length <= b.surname.length ? [a, b] : [b, a];
+  return shorter.surname.length > 0 && shorter.surname.every((word, i) => longer.surname[i] === word);
+}
+
+/**
+ * Groups of players on the same tour that look alike but were not merged by
+ * the registry. Each group is either one person under several spellings (add
+ * an alias) or distinct players that happen to look alike.
+ */
+export function findSuspectedDuplicates(players: Player[]): Player[][] {
+  // Only players on one tour with the same initial can look alike
+  const buckets = new Map<string, Array<{ player: Player; loose: LooseName }>>();
+  players.forEach(player => {
+    const loose = looseName(player.name);
+    const key = `${player.tour}|${loose.initial}`;
+    buckets.set(key, [...(buckets.get(key) ?? []), { player, loose }]);
+  });
+
+  const groups: Player[][] = [];
+  buckets.forEach(bucket => {
+    // Join every pair that looks alike into one group
+    const groupOf = bucket.map((_, i) => i);
+    const root = (i: number): number => (groupOf[i] === i ? i : root(groupOf[i]));
+    bucket.forEach((a, i) => {
+      bucket.slice(i + 1).forEach((b, offset) => {
+        if (looksAlike(a.loose, b.loose)) groupOf[root(i + 1 + offset)] = root(i);
+      });
+    });
+
+    const members = new Map<number, Player[]>();
+    bucket.forEach(({ player }, i) => members.set(root(i), [...(members.get(root(i)) ?? []), player]));
+    members.forEach(group => {
+      if (group.length > 1) groups.push(group);
+    });
+  });
+  return groups;
+}
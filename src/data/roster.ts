@@ -0,0 +1,186 @@
+/**
+ * Player Roster
+ *
+ * The CSVs only name players as "Surname I." An optional roster file in the
+ * project root adds what they leave out: full name, country, playing hand,
+ * backhand, birthdate and height. It is joined onto players at ingest and the
+ * fields are written to players.json.
+ *
+ * `roster.json` (an array of objects) is read if present, otherwise
+ * `roster.csv`; roster.example.csv in the project root shows the format.
+ * Both use the same fields:
+ *   name       Spelling as in the match CSVs (any alias), or the player id
+ *   tour       ATP or WTA (default ATP)
+ *   full_name  e.g. "Alexei Popyrin"
+ *   country    IOC code, e.g. AUS
+ *   hand       R or L (Right/Left)
+ *   backhand   1 or 2 (one-/two-handed)
+ *   birthdate  YYYY-MM-DD
+ *   height     cm
+ * Every field but `name` may be blank. Rows for unknown players and
+ * unreadable values go into the validation report (JSON entries are numbered
+ * from 1 as their "line").
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { csvParse } from 'd3-dsv';
+import { registryKey } from './playerRegistry';
+import { recordDefault, recordSkip, type RowLocation, type ValidationReport } from './validation';
+import type { Backhand, Hand, Player, Tour } from '../types';
+
+const ROSTER_FILES = ['roster.json', 'roster.csv'];
+
+type RosterField = 'name' | 'tour' | 'full_name' | 'country' | 'hand' | 'backhand' | 'birthdate' | 'height';
+type RosterRow = Partial<Record<RosterField, string | number>>;
+
+const HANDS: Record<string, Hand> = { r: 'Right', right: 'Right', l: 'Left', left: 'Left' };
+const BACKHANDS: Record<string, Backhand> = {
+  '1': 'One-handed',
+  '1hb': 'One-handed',
+  'one-handed': 'One-handed',
+  '2': 'Two-handed',
+  '2hb': 'Two-handed',
+  'two-handed': 'Two-handed'
+};
+
+// Heights outside this range (cm) are taken as typos
+const MIN_HEIGHT = 140;
+const MAX_HEIGHT = 230;
+
+function readRosterFile(rootDir: string): { file: string; rows: RosterRow[] } | null {
+  const file = ROSTER_FILES.find(candidate => fs.existsSync(path.join(rootDir, candidate)));
+  if (!file) return null;
+
+  const content = fs.readFileSync(path.join(rootDir, file), 'utf-8');
+  if (!file.endsWith('.json')) return { file, rows: csvParse(content) as unknown as RosterRow[] };
+
+  let rows: unknown;
+  try {
+    rows = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Roster: ${file} is not valid JSON (${(err as Error).message})`);
+  }
+  if (!Array.isArray(rows)) {
+    throw new Error(`Roster: ${file} must be an array of player objects`);
+  }
+  const badEntry = rows.findIndex(row => typeof row !== 'object' || row === null || Array.isArray(row));
+  if (badEntry !== -1) {
+    throw new Error(`Roster: ${file} entry ${badEntry + 1} is not an object`);
+  }
+  return { file, rows: rows as RosterRow[] };
+}
+
+/**
+ * Trimmed text of a field, or undefined when blank
+ */
+function text(row: RosterRow, field: RosterField): string | undefined {
+  const value = row[field];
+  if (value === undefined || value === null) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? undefined : trimmed;
+}
+
+function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+/**
+ * Read one field with its parser, reporting values it cannot read
+ */
+function readField<T>(
+  row: RosterRow,
+  field: RosterField,
+  parse: (value: string) => T | undefined,
+  report: ValidationReport,
+  location: RowLocation
+): T | undefined {
+  const value = text(row, field);
+  if (value === undefined) return undefined;
+  const parsed = parse(value);
+  if (parsed === undefined) recordDefault(report, location, field, value, 'none');
+  return parsed;
+}
+
+/**
+ * Join the roster file onto the players, if there is one. Returns the file
+ * name and how many players it covered, or null when there is no roster.
+ */
+export function applyRoster(
+  players: Player[],
+  rootDir: string,
+  report: ValidationReport
+): { file: string; matched: number } | null {
+  const roster = readRosterFile(rootDir);
+  if (!roster) return null;
+
+  // Any spelling or the id finds a player
+  const bySpelling = new Map<string, Player>();
+  players.forEach(player => {
+    [player.name, ...(player.aliases ?? [])].forEach(name => bySpelling.set(registryKey(player.tour, name), player));
+  });
+  const byId = new Map(players.map(player => [player.id, player]));
+
+  const issuesBefore = report.issues.length;
+  const joined = new Map<string, RowLocation>(); // player id -> roster row that filled it
+
+  roster.rows.forEach((row, index) => {
+    // CSV lines count the header as line 1
+    const location: RowLocation = {
+      file: roster.file,
+      line: roster.file.endsWith('.csv') ? index + 2 : index + 1
+    };
+
+    const name = text(row, 'name');
+    if (!name) {
+      recordSkip(report, location, 'Missing name', { field: 'name', value: '' });
+      return;
+    }
+    const tourValue = text(row, 'tour')?.toUpperCase() ?? 'ATP';
+    if (tourValue !== 'ATP' && tourValue !== 'WTA') {
+      recordSkip(report, location, 'Unrecognized tour', { field: 'tour', value: tourValue });
+      return;
+    }
+    const tour: Tour = tourValue;
+
+    const player = bySpelling.get(registryKey(tour, name)) ?? byId.get(name);
+    if (!player || player.tour !== tour) {
+      recordSkip(report, location, 'Unknown player', { field: 'name', value: name });
+      return;
+    }
+    const earlier = joined.get(player.id);
+    if (earlier) {
+      recordSkip(report, location, 'Duplicate roster row', { value: `${earlier.file}:${earlier.line}` });
+      return;
+    }
+    joined.set(player.id, location);
+
+    player.fullName = text(row, 'full_name');
+    player.country = readField(row, 'country', value => (/^[a-z]{3}$/i.test(value) ? value.toUpperCase() : undefined), report, location);
+    player.hand = readField(row, 'hand', value => HANDS[value.toLowerCase()], report, location);
+    player.backhand = readField(row, 'backhand', value => BACKHANDS[value.toLowerCase()], report, location);
+    player.birthdate = readField(row, 'birthdate', value => (isIsoDate(value) ? value : undefined), report, location);
+    player.height = readField(
+      row,
+      'height',
+      value => {
+        const cm = Number(value);
+        return Number.isInteger(cm) && cm >= MIN_HEIGHT && cm <= MAX_HEIGHT ? cm : undefined;
+      },
+      report,
+      location
+    );
+  });
+
+  const fileIssues = report.issues.slice(issuesBefore);
+  report.files.push({
+    file: roster.file,
+    rowsRead: roster.rows.length,
+    rowsProcessed: joined.size,
+    skipped: fileIssues.filter(i => i.action === 'skipped').length,
+    defaulted: new Set(fileIssues.filter(i => i.action === 'defaulted').map(i => i.line)).size,
+    flagged: 0
+  });
+
+  return { file: roster.file, matched: joined.size };
+}
@@ -0,0 +1,172 @@
+/**
+ * Round-Robin Group Stage
+ *
+ * Season finals open with groups that play each other before a knockout
+ * phase. The CSVs only mark group matches as 'RR', so each group is recovered
+ * as a set of players who met one another, then ranked with the ATP Finals
+ * tie-breaks: wins, matches played, then head-to-head for two tied players or
+ * set and game percentage for three or more, and finally entry ranking.
+ */
+
+import { compareMatchesChronologically } from '../utils/elo';
+import { formatScore } from '../utils/d3/formatters';
+import type { Match, Player, GroupStage, GroupStanding, RoundRobinGroup } from '../types';
+
+// Sorts unranked players after every ranked one
+const UNRANKED = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Split the round-robin matches into groups: players connected by a match
+ * played in the same group
+ */
+function findGroups(rrMatches: Match[]): Match[][] {
+  const groupOf = new Map<string, number>();
+  const groups: Set<string>[] = [];
+
+  rrMatches.forEach(match => {
+    const w = groupOf.get(match.winnerId);
+    const l = groupOf.get(match.loserId);
+    if (w === undefined && l === undefined) {
+      groups.push(new Set([match.winnerId, match.loserId]));
+      groupOf.set(match.winnerId, groups.length - 1);
+      groupOf.set(match.loserId, groups.length - 1);
+    } else if (w === undefined || l === undefined) {
+      const index = (w ?? l)!;
+      const newcomer = w === undefined ? match.winnerId : match.loserId;
+      groups[index].add(newcomer);
+      groupOf.set(newcomer, index);
+    } else if (w !== l) {
+      // Merge the loser's group into the winner's
+      groups[l].forEach(playerId => {
+        groups[w].add(playerId);
+        groupOf.set(playerId, w);
+      });
+      groups[l].clear();
+    }
+  });
+
+  return groups
+    .filter(players => players.size > 0)
+    .map(players => rrMatches.filter(m => players.has(m.winnerId)));
+}
+
+function rankStandings(standings: GroupStanding[], matches: Match[]): GroupStanding[] {
+  const beat = (a: GroupStanding, b: GroupStanding) =>
+    matches.some(m => m.winnerId === a.playerId && m.loserId === b.playerId);
+  const setShare = (s: GroupStanding) => s.setsWon / Math.max(1, s.setsWon + s.setsLost);
+  const gameShare = (s: GroupStanding) => s.gamesWon / Math.max(1, s.gamesWon + s.gamesLost);
+  const byRank = (a: GroupStanding, b: GroupStanding) =>
+    (a.rank ?? UNRANKED) - (b.rank ?? UNRANKED) || a.playerName.localeCompare(b.playerName);
+
+  const sorted = [...standings].sort((a, b) => b.wins - a.wins || b.played - a.played);
+  const ranked: GroupStanding[] = [];
+  for (let start = 0; start < sorted.length; ) {
+    let end = start + 1;
+    while (
+      end < sorted.length &&
+      sorted[end].wins === sorted[start].wins &&
+      sorted[end].played === sorted[start].played
+    ) {
+      end++;
+    }
+
+    const tied = sorted.slice(start, end);
+    if (tied.length === 2) {
+      tied.sort((a, b) => (beat(a, b) ? -1 : beat(b, a) ? 1 : byRank(a, b)));
+    } else {
+      tied.sort((a, b) => setShare(b) - setShare(a) || gameShare(b) - gameShare(a) || byRank(a, b));
+    }
+    ranked.push(...tied);
+    start = end;
+  }
+  return ranked;
+}
+
+/**
+ * Build the group stage of one tournament, or null if it has no round-robin matches
+ */
+export function buildGroupStage(
+  tournamentId: string,
+  tournamentMatches: Match[],
+  playerMap: Map<string, Player>
+): GroupStage | null {
+  const rrMatches = tournamentMatches
+    .filter(m => m.round === 'RR')
+    .sort(compareMatchesChronologically);
+  if (rrMatches.length === 0) return null;
+
+  // Everyone who played past the groups qualified
+  const knockoutPlayers = new Set(
+    tournamentMatches.filter(m => m.round !== 'RR').flatMap(m => [m.winnerId, m.loserId])
+  );
+  const nameOf = (playerId: string) => playerMap.get(playerId)?.name || 'Unknown';
+
+  const groups: RoundRobinGroup[] = findGroups(rrMatches).map(matches => {
+    const standings = new Map<string, GroupStanding>();
+    const standingOf = (playerId: string, rank: number | undefined) => {
+      let standing = standings.get(playerId);
+      if (!standing) {
+        standing = {
+          playerId,
+          playerName: nameOf(playerId),
+          rank,
+          played: 0,
+          wins: 0,
+          losses: 0,
+          setsWon: 0,
+          setsLost: 0,
+          gamesWon: 0,
+          gamesLost: 0,
+          qualified: knockoutPlayers.has(playerId)
+        };
+        standings.set(playerId, standing);
+      }
+      return standing;
+    };
+
+    matches.forEach(match => {
+      const winner = standingOf(match.winnerId, match.wRank);
+      const loser = standingOf(match.loserId, match.lRank);
+      const winnerGames = match.w.reduce((sum, games) => sum + games, 0);
+      const loserGames = match.l.reduce((sum, games) => sum + games, 0);
+
+      winner.played++;
+      winner.wins++;
+      winner.setsWon += match.wsets;
+      winner.setsLost += match.lsets;
+      winner.gamesWon += winnerGames;
+      winner.gamesLost += loserGames;
+
+      loser.played++;
+      loser.losses++;
+      loser.setsWon += match.lsets;
+      loser.setsLost += match.wsets;
+      loser.gamesWon += loserGames;
+      loser.gamesLost += winnerGames;
+    });
+
+    return {
+      name: '',
+      standings: rankStandings(Array.from(standings.values()), matches),
+      matches: matches.map(match => ({
+        matchId: match.id,
+        winnerId: match.winnerId,
+        loserId: match.loserId,
+        winnerName: nameOf(match.winnerId),
+        loserName: nameOf(match.loserId),
+        score: formatScore(match.w, match.l, match.status)
+      }))
+    };
+  });
+
+  // Group A holds the best-ranked entrant
+  const bestRank = (group: RoundRobinGroup) =>
+    Math.min(...group.standings.map(s => s.rank ?? UNRANKED));
+  groups
+    .sort((a, b) => bestRank(a) - bestRank(b))
+    .forEach((group, index) => {
+      group.name = `Group ${String.fromCharCode(65 + index)}`;
+    });
+
+  return { tournamentId, groups };
+}
@@ -0,0 +1,97 @@
+/**
+ * Score Consistency Checker
+ *
+ * Verifies that a match's per-set games (W1..L5) are legal tennis scores and
+ * agree with its aggregate Wsets/Lsets and best-of format, then classifies it
+ * as consistent, retired, walkover or corrupt.
+ */
+
+import type { Match, ScoreStatus } from '../types';
+
+export interface ScoreCheck {
+  status: ScoreStatus;
+  issues: string[]; // Why the match was classified corrupt
+}
+
+/**
+ * A completed set: 6-0..6-4, 7-5 or a 7-6 tiebreak. Deciding sets may also
+ * run long, either by two games (advantage set) or to a late tiebreak (13-12).
+ */
+function isLegalSet(a: number, b: number, deciding: boolean): boolean {
+  const high = Math.max(a, b);
+  const low = Math.min(a, b);
+  if (high === 6 && low <= 4) return true;
+  if (high === 7 && (low === 5 || low === 6)) return true;
+  if (deciding && high > 7 && (high - low === 2 || (high - low === 1 && low >= 6))) return true;
+  return false;
+}
+
+/**
+ * A set left unfinished by a retirement: nobody has won it yet
+ */
+function isUnfinishedSet(a: number, b: number, deciding: boolean): boolean {
+  if (isLegalSet(a, b, deciding)) return false;
+  const high = Math.max(a, b);
+  const low = Math.min(a, b);
+  return high <= 6 || (deciding && high - low < 2);
+}
+
+export function formatSets(match: Match): string {
+  return match.w.map((w, i) => `${w}-${match.l[i]}`).join(' ');
+}
+
+export function checkScore(match: Match): ScoreCheck {
+  const hasGames = match.w.some((w, i) => w + match.l[i] > 0);
+  const setsToWin = Math.ceil(match.bestOf / 2);
+  const issues: string[] = [];
+
+  if (match.status === 'Walkover') {
+    if (hasGames) issues.push(`walkover with games played (${formatSets(match)})`);
+    return issues.length > 0 ? { status: 'corrupt', issues } : { status: 'walkover', issues };
+  }
+
+  // Anything past this point would only repeat the format mismatch
+  if (match.w.length > match.bestOf) {
+    issues.push(`${match.w.length} sets in a best-of-${match.bestOf} match`);
+    return { status: 'corrupt', issues };
+  }
+
+  // Awarded matches end early too, after whatever play took place
+  const endedEarly = match.status === 'Retired' || match.status === 'Awarded';
+
+  let wonByWinner = 0;
+  let wonByLoser = 0;
+  match.w.forEach((w, i) => {
+    const l = match.l[i];
+    const deciding = i === match.bestOf - 1;
+    const isLast = i === match.w.length - 1;
+
+    if (wonByWinner === setsToWin || wonByLoser === setsToWin) {
+      issues.push(`set ${i + 1} (${w}-${l}) played after the match was decided`);
+      return;
+    }
+    if (isLegalSet(w, l, deciding)) {
+      if (w > l) wonByWinner++;
+      else wonByLoser++;
+    } else if (!(endedEarly && isLast && isUnfinishedSet(w, l, deciding))) {
+      issues.push(`illegal set score ${w}-${l} in set ${i + 1}`);
+    }
+  });
+
+  if (wonByWinner !== match.wsets || wonByLoser !== match.lsets) {
+    issues.push(`set scores give ${wonByWinner}-${wonByLoser} but Wsets/Lsets is ${match.wsets}-${match.lsets}`);
+  }
+
+  if (endedEarly) {
+    if (wonByWinner >= setsToWin) issues.push('retirement after the winner had already won');
+    if (wonByLoser >= setsToWin) issues.push('loser won the required sets');
+    return issues.length > 0 ? { status: 'corrupt', issues } : { status: 'retired', issues };
+  }
+
+  if (!hasGames) {
+    issues.push('completed match has no set scores');
+  } else if (wonByWinner !== setsToWin) {
+    issues.push(`winner won ${wonByWinner} of the ${setsToWin} sets needed in best of ${match.bestOf}`);
+  }
+  return issues.length > 0 ? { status: 'corrupt', issues } : { status: 'consistent', issues };
+}
@@ -0,0 +1,115 @@
+/**
+ * Ingest Validation Report
+ *
+ * Collects every CSV row that ingest skipped, filled with a default value or
+ * kept but flagged as suspect, so data problems are visible before publishing.
+ * The report is written to `.cache/validation-report.json`, outside the
+ * deployed data, and summarized on the console.
+ */
+
+export type ValidationAction = 'skipped' | 'defaulted' | 'flagged';
+
+export interface ValidationIssue {
+  file: string;
+  line: number; // 1-based line in the CSV, counting the header as line 1
+  action: ValidationAction;
+  reason: string;
+  field?: string;
+  value?: string; // Raw CSV value that triggered the issue
+  fallback?: string; // Value used instead, for defaulted fields
+  detail?: string; // What is wrong, for flagged rows
+}
+
+export interface FileSummary {
+  file: string;
+  rowsRead: number;
+  rowsProcessed: number;
+  skipped: number;
+  defaulted: number;
+  flagged: number;
+}
+
+export interface ValidationReport {
+  files: FileSummary[];
+  issues: ValidationIssue[];
+}
+
+export interface RowLocation {
+  file: string;
+  line: number;
+}
+
+export function createValidationReport(): ValidationReport {
+  return { files: [], issues: [] };
+}
+
+export function recordSkip(
+  report: ValidationReport,
+  location: RowLocation,
+  reason: string,
+  detail: Pick<ValidationIssue, 'field' | 'value'> = {}
+) {
+  report.issues.push({ ...location, action: 'skipped', reason, ...detail });
+}
+
+export function recordDefault(
+  report: ValidationReport,
+  location: RowLocation,
+  field: string,
+  value: string | undefined,
+  fallback: string
+) {
+  report.issues.push({
+    ...location,
+    action: 'defaulted',
+    reason: value ? `Unrecognized ${field}` : `Missing ${field}`,
+    field,
+    value: value ?? '',
+    fallback
+  });
+}
+
+export function recordFlag(
+  report: ValidationReport,
+  location: RowLocation,
+  reason: string,
+  value: string,
+  detail: string
+) {
+  report.issues.push({ ...location, action: 'flagged', reason, value, detail });
+}
+
+/**
+ * Print per-file counts and the most common reasons, with a few example rows
+ */
+export function printValidationSummary(report: ValidationReport, examplesPerReason = 3) {
+  console.log('\n--- Validation ---');
+  report.files.forEach(f => {
+    console.log(
+      `${f.file}: ${f.rowsProcessed}/${f.rowsRead} rows ingested, ${f.skipped} skipped, ${f.defaulted} with defaults, ${f.flagged} flagged`
+    );
+  });
+
+  if (report.issues.length === 0) {
+    console.log('No skipped, defaulted or flagged rows.');
+    return;
+  }
+
+  const byReason = new Map<string, ValidationIssue[]>();
+  report.issues.forEach(issue => {
+    const key = `${issue.action}: ${issue.reason}`;
+    byReason.set(key, [...(byReason.get(key) ?? []), issue]);
+  });
+
+  Array.from(byReason.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .forEach(([reason, issues]) => {
+      console.warn(`  - ${reason} (${issues.length})`);
+      issues.slice(0, examplesPerReason).forEach(issue => {
+        const value = issue.value !== undefined ? ` "${issue.value}"` : '';
+        const fallback = issue.fallback !== undefined ? ` -> ${issue.fallback}` : '';
+        const detail = issue.detail !== undefined ? ` (${issue.detail})` : '';
+        console.warn(`      ${issue.file}:${issue.line}${value}${fallback}${detail}`);
+      });
+    });
+}
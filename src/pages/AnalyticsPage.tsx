@@ -3,7 +3,7 @@
  * Filters on top, plots below
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { SurfaceFilter } from '../components/filters/SurfaceFilter';
 import { SeriesFilter } from '../components/filters/SeriesFilter';
 import { RoundFilter } from '../components/filters/RoundFilter';
@@ -13,6 +13,8 @@ import { UpsetDensityByRound } from '../components/insights/UpsetDensityByRound'
 import { ResultsTable } from '../components/insights/ResultsTable';
 import { PlayerSurfaceProfile } from '../components/insights/PlayerSurfaceProfile';
 import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
 import type { Match, Derived, Tournament, Player } from '../types';
 
 export function AnalyticsPage() {
@@ -21,10 +23,11 @@ export function AnalyticsPage() {
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
-  const { clearFilters, surface, series } = useStore();
+  const { tour, clearFilters, surface, series, completedOnly } = useStore();
   
   useEffect(() => {
-    // Load data from consolidated JSON files (includes all years)
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
     Promise.all([
       fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
@@ -32,22 +35,25 @@ export function AnalyticsPage() {
       fetch(`${import.meta.env.BASE_URL}data/derived.json`).then(r => r.json())
     ])
       .then(([playersData, tournamentsData, matchesData, derivedData]) => {
-        setPlayers(playersData);
-        setTournaments(tournamentsData);
-        setMatches(matchesData);
-        setDerived(derivedData);
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData, derived: derivedData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setDerived(scoped.derived);
         setLoading(false);
       })
       .catch(err => {
         console.error('Error loading data:', err);
         setLoading(false);
       });
-  }, []);
+  }, [tour]);
+
+  const visibleMatches = useMemo(() => filterByStatus(matches, completedOnly), [matches, completedOnly]);
 
   if (loading) {
     return (
       <div className="app-loading">
-        <div className="loading-spinner">Loading ATP match data...</div>
+        <div className="loading-spinner">Loading {tour} match data...</div>
       </div>
     );
   }
@@ -63,7 +69,7 @@ export function AnalyticsPage() {
         </div>
         <div className="filters-grid">
           <SurfaceFilter />
-          <SeriesFilter />
+          <SeriesFilter tournaments={tournaments} />
           <RoundFilter />
           <PlayerFilter players={players} />
         </div>
@@ -71,7 +77,7 @@ export function AnalyticsPage() {
       
       <div className="insights-section">
         <CompetitivenessBeeswarm 
-          matches={matches}
+          matches={visibleMatches}
           derived={derived}
           players={players}
           tournaments={tournaments}
@@ -80,18 +86,18 @@ export function AnalyticsPage() {
         />
         
         <UpsetDensityByRound 
-          matches={matches}
+          matches={visibleMatches}
           derived={derived}
         />
         
         <PlayerSurfaceProfile 
-          matches={matches}
+          matches={visibleMatches}
           tournaments={tournaments}
           players={players}
         />
         
         <ResultsTable 
-          matches={matches}
+          matches={visibleMatches}
           derived={derived}
           tournaments={tournaments}
           players={players}
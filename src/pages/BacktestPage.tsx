@@ -0,0 +1,128 @@
+/**
+ * Betting Backtest Page
+ * Replays staking strategies against historical odds under the global filters
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { SurfaceFilter } from '../components/filters/SurfaceFilter';
+import { SeriesFilter } from '../components/filters/SeriesFilter';
+import { RoundFilter } from '../components/filters/RoundFilter';
+import { PlayerFilter } from '../components/filters/PlayerFilter';
+import { BacktestRoiChart } from '../components/insights/BacktestRoiChart';
+import { runBacktest } from '../utils/backtest';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { isCompleted } from '../utils/matchStatus';
+import type { Match, Tournament, Player, MatchOdds, Bookmaker } from '../types';
+
+const bookOptions: Array<{ value: Bookmaker; label: string }> = [
+  { value: 'B365', label: 'Bet365' },
+  { value: 'PS', label: 'Pinnacle' },
+  { value: 'Avg', label: 'Market Average' },
+  { value: 'Max', label: 'Best Available (Max)' },
+  // Only present in older files
+  { value: 'EX', label: 'Expekt' },
+  { value: 'LB', label: 'Ladbrokes' },
+  { value: 'SB', label: 'Sportingbet' },
+  { value: 'CB', label: 'Centrebet' },
+  { value: 'GB', label: 'Gamebookers' },
+  { value: 'IW', label: 'Interwetten' },
+  { value: 'UB', label: 'Unibet' },
+  { value: 'SJ', label: 'Stan James' },
+  { value: 'B&W', label: 'Bet&Win' }
+];
+
+export function BacktestPage() {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [odds, setOdds] = useState<Record<string, MatchOdds>>({});
+  const [book, setBook] = useState<Bookmaker>('B365');
+  const [loading, setLoading] = useState(true);
+  const { tour, clearFilters, surface, series, rounds, playerIds, dateRange, completedOnly } = useStore();
+
+  useEffect(() => {
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/odds.json`).then(r => r.json())
+    ])
+      .then(([playersData, tournamentsData, matchesData, oddsData]) => {
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setOdds(oddsData);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error loading data:', err);
+        setLoading(false);
+      });
+  }, [tour]);
+
+  const tournamentsMap = useMemo(() => new Map(tournaments.map(t => [t.id, t])), [tournaments]);
+
+  const results = useMemo(() => {
+    const include = (m: Match) => {
+      const tournament = tournamentsMap.get(m.tournamentId);
+      if (surface && tournament?.surface !== surface) return false;
+      if (series && tournament?.series !== series) return false;
+      if (rounds.length > 0 && !rounds.includes(m.round)) return false;
+      if (playerIds.length > 0 && !playerIds.includes(m.winnerId) && !playerIds.includes(m.loserId)) return false;
+      if (dateRange && (m.date < dateRange[0] || m.date > dateRange[1])) return false;
+      if (completedOnly && !isCompleted(m)) return false;
+      return true;
+    };
+    return runBacktest(matches, tournamentsMap, odds, book, include);
+  }, [matches, tournamentsMap, odds, book, surface, series, rounds, playerIds, dateRange, completedOnly]);
+
+  if (loading) {
+    return (
+      <div className="app-loading">
+        <div className="loading-spinner">Loading {tour} match data...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="backtest-page">
+      <div className="filters-section">
+        <div className="filters-header">
+          <h2>Filters</h2>
+          <button onClick={clearFilters} className="clear-button">
+            Clear Filters
+          </button>
+        </div>
+        <div className="filters-grid">
+          <SurfaceFilter />
+          <SeriesFilter tournaments={tournaments} />
+          <RoundFilter />
+          <PlayerFilter players={players} />
+          <div className="filter-group">
+            <label className="filter-label" htmlFor="backtest-book">Odds Source</label>
+            <select
+              id="backtest-book"
+              value={book}
+              onChange={e => setBook(e.target.value as Bookmaker)}
+              className="filter-select"
+            >
+              {bookOptions.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="insights-section">
+        <BacktestRoiChart results={results} />
+      </div>
+    </div>
+  );
+}
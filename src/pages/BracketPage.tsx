@@ -3,31 +3,61 @@
  */
 
 import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { TournamentBracket } from '../components/insights/TournamentBracket';
+import { GroupStageTable } from '../components/insights/GroupStageTable';
+import { PlayerLink } from '../components/PlayerLink';
+import { TournamentLink } from '../components/TournamentLink';
 import { getTournamentDisplayName } from '../utils/tournamentNames';
-import type { Tournament, BracketNode, Series } from '../types';
+import { createMatchPredictor, defaultBestOf } from '../utils/prediction';
+import { simulateDraw, getDrawRounds, DEFAULT_ITERATIONS } from '../utils/drawSimulator';
+import { formatPercent, formatRound } from '../utils/d3/formatters';
+import { SERIES_ORDER } from '../utils/series';
+import { scopeToTour } from '../utils/tour';
+import { useStore } from '../state/store';
+import type { Tournament, Match, BracketNode, GroupStage } from '../types';
+
+const iterationOptions = [1000, DEFAULT_ITERATIONS, 20000];
 
 export function BracketPage() {
+  const [searchParams] = useSearchParams();
+  const { tour } = useStore();
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [matches, setMatches] = useState<Match[]>([]);
   const [selectedYear, setSelectedYear] = useState<number | ''>('');
   const [selectedTournamentId, setSelectedTournamentId] = useState<string>('');
   const [bracketData, setBracketData] = useState<BracketNode | null>(null);
+  const [groupStage, setGroupStage] = useState<GroupStage | null>(null);
   const [loading, setLoading] = useState(true);
   const [bracketLoading, setBracketLoading] = useState(false);
+  const [showSimulation, setShowSimulation] = useState(false);
+  const [startDepth, setStartDepth] = useState(0);
+  const [iterations, setIterations] = useState(DEFAULT_ITERATIONS);
 
-  // Load tournaments
+  // Load tournaments (matches feed the win-probability model for simulations)
   useEffect(() => {
-    fetch(`${import.meta.env.BASE_URL}data/tournaments.json`)
-      .then(r => r.json())
-      .then(data => {
-        setTournaments(data);
+    setLoading(true);
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json())
+    ])
+      .then(([tournamentsData, matchesData]) => {
+        const scoped = scopeToTour({ tournaments: tournamentsData, matches: matchesData }, tour);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+
+        // Open a specific bracket when linked with ?tournament=<id>; a pick from
+        // the other tour is cleared
+        const linked = scoped.tournaments.find(t => t.id === searchParams.get('tournament'));
+        setSelectedYear(linked ? linked.year : '');
+        setSelectedTournamentId(linked ? linked.id : '');
         setLoading(false);
       })
       .catch(err => {
         console.error('Error loading tournaments:', err);
         setLoading(false);
       });
-  }, []);
+  }, [tour]);
 
   // Get available years
   const availableYears = useMemo(() => {
@@ -41,16 +71,9 @@ export function BracketPage() {
     
     const filtered = tournaments.filter(t => t.year === selectedYear);
     
-    // Sort by series level (Grand Slam > Masters > ATP500 > ATP250), then by name
-    const seriesOrder: Record<Series, number> = {
-      'Grand Slam': 1,
-      'Masters': 2,
-      'ATP500': 3,
-      'ATP250': 4
-    };
-
+    // Sort by series level (Grand Slam > Masters Cup > Masters > ... > International), then by name
     return filtered.sort((a, b) => {
-      const seriesDiff = seriesOrder[a.series] - seriesOrder[b.series];
+      const seriesDiff = SERIES_ORDER.indexOf(a.series) - SERIES_ORDER.indexOf(b.series);
       if (seriesDiff !== 0) return seriesDiff;
       return getTournamentDisplayName(a).localeCompare(getTournamentDisplayName(b));
     });
@@ -82,11 +105,71 @@ export function BracketPage() {
       });
   }, [selectedTournamentId]);
 
-  // Reset tournament selection when year changes
+  // Season finals open with round-robin groups, written alongside the bracket
+  const hasGroupStage = useMemo(
+    () => matches.some(m => m.tournamentId === selectedTournamentId && m.round === 'RR'),
+    [matches, selectedTournamentId]
+  );
+
+  useEffect(() => {
+    if (!selectedTournamentId || !hasGroupStage) {
+      setGroupStage(null);
+      return;
+    }
+
+    fetch(`${import.meta.env.BASE_URL}data/groups/${selectedTournamentId}.json`)
+      .then(r => {
+        if (!r.ok) {
+          throw new Error('Group stage not found');
+        }
+        return r.json();
+      })
+      .then(setGroupStage)
+      .catch(err => {
+        console.error('Error loading group stage:', err);
+        setGroupStage(null);
+      });
+  }, [selectedTournamentId, hasGroupStage]);
+
+  const drawRounds = useMemo(() => (bracketData ? getDrawRounds(bracketData) : []), [bracketData]);
+
+  // Simulate from the first round by default
   useEffect(() => {
-    setSelectedTournamentId('');
-    setBracketData(null);
-  }, [selectedYear]);
+    setStartDepth(drawRounds.length > 0 ? drawRounds[drawRounds.length - 1].depth : 0);
+  }, [drawRounds]);
+
+  const predictor = useMemo(() => createMatchPredictor(matches, tournaments), [matches, tournaments]);
+
+  const simulation = useMemo(() => {
+    const tournament = tournaments.find(t => t.id === selectedTournamentId);
+    if (!showSimulation || !bracketData || !tournament) return null;
+
+    // Rate every pairing as of the tournament's first day
+    const tournamentMatches = matches.filter(m => m.tournamentId === tournament.id);
+    const date = tournamentMatches.map(m => m.date).sort()[0] ?? `${tournament.year}-01-01`;
+    const bestOf = tournamentMatches[0]?.bestOf ?? defaultBestOf(tournament.series, tournament.tour);
+
+    return simulateDraw(
+      bracketData,
+      (playerAId, playerBId) =>
+        predictor.predict({
+          playerAId,
+          playerBId,
+          surface: tournament.surface,
+          series: tournament.series,
+          tour: tournament.tour,
+          date,
+          bestOf
+        }).probability,
+      startDepth,
+      iterations
+    );
+  }, [showSimulation, bracketData, tournaments, selectedTournamentId, matches, predictor, startDepth, iterations]);
+
+  const simulatedPlayers = useMemo(
+    () => (simulation ? Array.from(simulation.players.values()).sort((a, b) => b.title - a.title) : []),
+    [simulation]
+  );
 
   if (loading) {
     return (
@@ -97,6 +180,12 @@ export function BracketPage() {
   }
 
   const selectedTournament = tournaments.find(t => t.id === selectedTournamentId);
+  const previousEdition = tournaments.find(t => t.id === selectedTournament?.previousEditionId);
+  const nextEdition = tournaments.find(t => t.id === selectedTournament?.nextEditionId);
+  const selectEdition = (edition: Tournament) => {
+    setSelectedYear(edition.year);
+    setSelectedTournamentId(edition.id);
+  };
 
   return (
     <div className="bracket-page">
@@ -106,7 +195,11 @@ export function BracketPage() {
           <select
             id="year-select"
             value={selectedYear}
-            onChange={e => setSelectedYear(e.target.value ? parseInt(e.target.value) : '')}
+            onChange={e => {
+              setSelectedYear(e.target.value ? parseInt(e.target.value) : '');
+              // Reset tournament selection when year changes
+              setSelectedTournamentId('');
+            }}
             className="filter-select"
           >
             <option value="">Select Year</option>
@@ -136,16 +229,87 @@ export function BracketPage() {
           </select>
         </div>
 
+        <div className="filter-control mode-toggle-control">
+          <label>View:</label>
+          <div className="mode-toggle">
+            <button
+              className={`mode-button ${!showSimulation ? 'active' : ''}`}
+              onClick={() => setShowSimulation(false)}
+            >
+              Results
+            </button>
+            <button
+              className={`mode-button ${showSimulation ? 'active' : ''}`}
+              onClick={() => setShowSimulation(true)}
+              disabled={!bracketData}
+            >
+              Simulation
+            </button>
+          </div>
+        </div>
+
+        {showSimulation && bracketData && (
+          <>
+            <div className="filter-control">
+              <label htmlFor="simulate-from">Simulate From:</label>
+              <select
+                id="simulate-from"
+                value={startDepth}
+                onChange={e => setStartDepth(parseInt(e.target.value))}
+                className="filter-select"
+              >
+                {[...drawRounds].reverse().map(r => (
+                  <option key={r.depth} value={r.depth}>
+                    {formatRound(r.round)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="filter-control">
+              <label htmlFor="simulate-iterations">Simulations:</label>
+              <select
+                id="simulate-iterations"
+                value={iterations}
+                onChange={e => setIterations(parseInt(e.target.value))}
+                className="filter-select"
+              >
+                {iterationOptions.map(n => (
+                  <option key={n} value={n}>
+                    {n.toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )}
+
         {selectedTournament && (
           <div className="tournament-info">
-            <h3>{getTournamentDisplayName(selectedTournament)}</h3>
+            <h3><TournamentLink tournament={selectedTournament} /></h3>
             <p>
               {selectedTournament.year} • {selectedTournament.series} • {selectedTournament.surface} • {selectedTournament.location}
             </p>
+            {(previousEdition || nextEdition) && (
+              <div className="edition-links">
+                {previousEdition && (
+                  <button className="mode-button" onClick={() => selectEdition(previousEdition)}>
+                    ← {previousEdition.year}
+                  </button>
+                )}
+                {nextEdition && (
+                  <button className="mode-button" onClick={() => selectEdition(nextEdition)}>
+                    {nextEdition.year} →
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {groupStage && <GroupStageTable groupStage={groupStage} />}
+
       <div className="bracket-container" style={{ 
         height: 'calc(100vh - 280px)', 
         minHeight: '600px',
@@ -156,9 +320,39 @@ export function BracketPage() {
             <div className="loading-spinner">Loading bracket...</div>
           </div>
         ) : (
-          <TournamentBracket bracketData={bracketData} />
+          <TournamentBracket bracketData={bracketData} simulation={simulation} />
         )}
       </div>
+
+      {simulation && (
+        <div className="chart-container draw-simulation">
+          <h3>Simulated Draw Odds ({simulation.iterations.toLocaleString()} runs)</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Player</th>
+                  {[...simulation.rounds].reverse().map(r => (
+                    <th key={r.depth}>{formatRound(r.round)}</th>
+                  ))}
+                  <th>Title</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulatedPlayers.map(player => (
+                  <tr key={player.playerId}>
+                    <td><PlayerLink playerId={player.playerId} name={player.name} /></td>
+                    {[...simulation.rounds].reverse().map(r => (
+                      <td key={r.depth}>{formatPercent(player.reach[r.depth] ?? 0)}</td>
+                    ))}
+                    <td>{formatPercent(player.title)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
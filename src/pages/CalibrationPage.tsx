@@ -0,0 +1,121 @@
+/**
+ * Calibration Page
+ * Scores the win-probability model on historical matches and compares it with the betting market
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { SurfaceFilter } from '../components/filters/SurfaceFilter';
+import { SeriesFilter } from '../components/filters/SeriesFilter';
+import { RoundFilter } from '../components/filters/RoundFilter';
+import { CalibrationChart, type ForecastSeries } from '../components/insights/CalibrationChart';
+import { predictHistoricalMatches, MODEL_FIT_WINDOW } from '../utils/prediction';
+import { getMarketOdds } from '../utils/odds';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { isCompleted } from '../utils/matchStatus';
+import type { Match, Tournament, MatchOdds } from '../types';
+
+export function CalibrationPage() {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [odds, setOdds] = useState<Record<string, MatchOdds>>({});
+  const [loading, setLoading] = useState(true);
+  const { tour, clearFilters, surface, series, rounds, dateRange, completedOnly } = useStore();
+
+  useEffect(() => {
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/odds.json`).then(r => r.json())
+    ])
+      .then(([tournamentsData, matchesData, oddsData]) => {
+        const scoped = scopeToTour({ tournaments: tournamentsData, matches: matchesData }, tour);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setOdds(oddsData);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error loading data:', err);
+        setLoading(false);
+      });
+  }, [tour]);
+
+  const tournamentsMap = useMemo(() => new Map(tournaments.map(t => [t.id, t])), [tournaments]);
+  const matchesMap = useMemo(() => new Map(matches.map(m => [m.id, m])), [matches]);
+
+  // Walk-forward predictions only depend on the data, not the filters
+  const predictions = useMemo(() => predictHistoricalMatches(matches, tournaments), [matches, tournaments]);
+
+  const forecastSeries = useMemo((): ForecastSeries[] => {
+    if (predictions.length === 0) return [];
+
+    const modelAll: ForecastSeries = { id: 'model-all', label: 'Model (all matches)', samples: [] };
+    const modelWithOdds: ForecastSeries = { id: 'model-odds', label: 'Model (matches with odds)', samples: [] };
+    const market: ForecastSeries = { id: 'market', label: 'Bookmaker market', samples: [] };
+
+    predictions.forEach(prediction => {
+      // The coefficients were fitted on these matches (which also cover the
+      // warm-up, when form and surface history are still empty)
+      if (prediction.date <= MODEL_FIT_WINDOW.to) return;
+      const match = matchesMap.get(prediction.matchId);
+      if (!match) return;
+      const tournament = tournamentsMap.get(match.tournamentId);
+      if (surface && tournament?.surface !== surface) return;
+      if (series && tournament?.series !== series) return;
+      if (rounds.length > 0 && !rounds.includes(match.round)) return;
+      if (dateRange && (match.date < dateRange[0] || match.date > dateRange[1])) return;
+      if (completedOnly && !isCompleted(match)) return;
+
+      const sample = { probability: prediction.probability, outcome: prediction.aWon };
+      modelAll.samples.push(sample);
+
+      // Market probabilities are quoted for the winner; flip them onto player A
+      const marketOdds = getMarketOdds(odds[prediction.matchId]);
+      if (marketOdds) {
+        modelWithOdds.samples.push(sample);
+        market.samples.push({
+          probability: prediction.aWon ? marketOdds.wProb : marketOdds.lProb,
+          outcome: prediction.aWon
+        });
+      }
+    });
+
+    return [modelAll, modelWithOdds, market];
+  }, [predictions, matchesMap, tournamentsMap, odds, surface, series, rounds, dateRange, completedOnly]);
+
+  if (loading) {
+    return (
+      <div className="app-loading">
+        <div className="loading-spinner">Loading {tour} match data...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="calibration-page">
+      <div className="filters-section">
+        <div className="filters-header">
+          <h2>Filters</h2>
+          <button onClick={clearFilters} className="clear-button">
+            Clear Filters
+          </button>
+        </div>
+        <div className="filters-grid">
+          <SurfaceFilter />
+          <SeriesFilter tournaments={tournaments} />
+          <RoundFilter />
+        </div>
+        <p className="edition-note">
+          Model fitted on {MODEL_FIT_WINDOW.from} to {MODEL_FIT_WINDOW.to}; only later matches are scored
+        </p>
+      </div>
+
+      <div className="insights-section">
+        <CalibrationChart series={forecastSeries} />
+      </div>
+    </div>
+  );
+}
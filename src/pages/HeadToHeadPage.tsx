@@ -2,9 +2,13 @@
  * Head-to-Head Records Page
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { HeadToHeadChart } from '../components/insights/HeadToHeadChart';
 import { StackedRadialBarChart } from '../components/insights/StackedRadialBarChart.tsx';
+import { MatchPredictorPanel } from '../components/insights/MatchPredictorPanel';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
 import type { Match, Tournament, Player } from '../types';
 
 export function HeadToHeadPage() {
@@ -12,38 +16,63 @@ export function HeadToHeadPage() {
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
+  const { tour, completedOnly } = useStore();
+  const [predictPlayerAId, setPredictPlayerAId] = useState<string | null>(null);
+  const [predictPlayerBId, setPredictPlayerBId] = useState<string | null>(null);
 
   useEffect(() => {
-    // Load data from consolidated JSON files (includes all years)
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
     Promise.all([
       fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json())
     ])
       .then(([playersData, tournamentsData, matchesData]) => {
-        setPlayers(playersData);
-        setTournaments(tournamentsData);
-        setMatches(matchesData);
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
         setLoading(false);
       })
       .catch(err => {
         console.error('Error loading data:', err);
         setLoading(false);
       });
-  }, []);
+  }, [tour]);
+
+  const visibleMatches = useMemo(() => filterByStatus(matches, completedOnly), [matches, completedOnly]);
 
   if (loading) {
     return (
       <div className="app-loading">
-        <div className="loading-spinner">Loading ATP match data...</div>
+        <div className="loading-spinner">Loading {tour} match data...</div>
       </div>
     );
   }
 
   return (
     <div className="head-to-head-page">
-      <HeadToHeadChart matches={matches} tournaments={tournaments} players={players} />
-      <StackedRadialBarChart matches={matches} tournaments={tournaments} players={players} />
+      <HeadToHeadChart matches={visibleMatches} tournaments={tournaments} players={players} />
+      <div className="predictor-layout">
+        {/* The model is fitted on every played match, whatever the status filter */}
+        <MatchPredictorPanel
+          matches={matches}
+          tournaments={tournaments}
+          players={players}
+          playerAId={predictPlayerAId}
+          playerBId={predictPlayerBId}
+          onPlayerAChange={setPredictPlayerAId}
+          onPlayerBChange={setPredictPlayerBId}
+        />
+        <StackedRadialBarChart
+          matches={visibleMatches}
+          tournaments={tournaments}
+          players={players}
+          defaultPrimaryPlayerId={predictPlayerAId}
+          defaultOpponentIds={predictPlayerBId ? [predictPlayerBId] : []}
+        />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,119 @@
+/**
+ * Nations Page
+ * Home advantage against Elo expectation, national records by surface and
+ * season, and a country leaderboard by titles and top-100 players
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { SeriesFilter } from '../components/filters/SeriesFilter';
+import { HomeAdvantageChart } from '../components/insights/HomeAdvantageChart';
+import { NationRecordsTable, NationLeaderboard } from '../components/insights/NationTables';
+import { computeHomeAdvantage, computeNationRecords, computeNationStandings } from '../utils/nationality';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
+import type { Match, Derived, Tournament, Player } from '../types';
+
+export function NationsPage() {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [derived, setDerived] = useState<Derived[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { tour, clearFilters, series, dateRange, completedOnly } = useStore();
+
+  useEffect(() => {
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/derived.json`).then(r => r.json())
+    ])
+      .then(([playersData, tournamentsData, matchesData, derivedData]) => {
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData, derived: derivedData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setDerived(scoped.derived);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error loading data:', err);
+        setLoading(false);
+      });
+  }, [tour]);
+
+  const ctx = useMemo(
+    () => ({
+      playersMap: new Map(players.map(p => [p.id, p])),
+      tournamentsMap: new Map(tournaments.map(t => [t.id, t]))
+    }),
+    [players, tournaments]
+  );
+  const derivedMap = useMemo(() => new Map(derived.map(d => [d.matchId, d])), [derived]);
+
+  const filteredMatches = useMemo(
+    () =>
+      filterByStatus(matches, completedOnly).filter(match => {
+        if (series && ctx.tournamentsMap.get(match.tournamentId)?.series !== series) return false;
+        if (dateRange && (match.date < dateRange[0] || match.date > dateRange[1])) return false;
+        return true;
+      }),
+    [matches, completedOnly, series, dateRange, ctx]
+  );
+
+  const years = useMemo(
+    () => Array.from(new Set(tournaments.map(t => t.year))).sort((a, b) => a - b),
+    [tournaments]
+  );
+  const homeAdvantage = useMemo(
+    () => computeHomeAdvantage(filteredMatches, derivedMap, ctx),
+    [filteredMatches, derivedMap, ctx]
+  );
+  const nationRecords = useMemo(() => computeNationRecords(filteredMatches, ctx), [filteredMatches, ctx]);
+  const nationStandings = useMemo(() => computeNationStandings(filteredMatches, ctx), [filteredMatches, ctx]);
+
+  const playersWithCountry = players.filter(p => p.country).length;
+  const tournamentsWithCountry = tournaments.filter(t => t.country).length;
+
+  if (loading) {
+    return (
+      <div className="app-loading">
+        <div className="loading-spinner">Loading {tour} match data...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="nations-page">
+      <div className="filters-section">
+        <div className="filters-header">
+          <h2>Filters</h2>
+          <button onClick={clearFilters} className="clear-button">
+            Clear Filters
+          </button>
+        </div>
+        <div className="filters-grid">
+          <SeriesFilter tournaments={tournaments} />
+        </div>
+        <p className="edition-note">
+          Nationality known for {playersWithCountry} of {players.length} players (every top-100 player,
+          from the country lookup and roster file), host country for {tournamentsWithCountry} of{' '}
+          {tournaments.length} tournaments (event registry)
+        </p>
+      </div>
+
+      <div className="insights-section">
+        <HomeAdvantageChart
+          overall={homeAdvantage.overall}
+          byCountry={homeAdvantage.byCountry}
+          missingCountry={homeAdvantage.missingCountry}
+        />
+        {nationRecords.length > 0 && <NationRecordsTable records={nationRecords} years={years} />}
+        {nationStandings.length > 0 && <NationLeaderboard standings={nationStandings} years={years} />}
+      </div>
+    </div>
+  );
+}
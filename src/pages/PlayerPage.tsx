@@ -0,0 +1,253 @@
+/**
+ * Player Profile Page
+ * Career summary for a single player, aggregated from matches.json
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { RankingHistoryChart } from '../components/insights/RankingHistoryChart';
+import { PlayerLink } from '../components/PlayerLink';
+import { TournamentLink } from '../components/TournamentLink';
+import { computePlayerProfile, type RecordRow } from '../utils/playerStats';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
+import { getTournamentDisplayName } from '../utils/tournamentNames';
+import { formatPlayerDetails } from '../utils/playerDetails';
+import { formatPercent, formatRound } from '../utils/d3/formatters';
+import type { Match, Tournament, Player } from '../types';
+
+function RecordTable({ title, rows, formatKey = key => key }: {
+  title: string;
+  rows: RecordRow[];
+  formatKey?: (key: string) => string;
+}) {
+  return (
+    <div className="chart-container">
+      <h3>{title}</h3>
+      <div className="table-wrapper">
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th></th>
+              <th>W-L</th>
+              <th>Win %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key}>
+                <td>{formatKey(row.key)}</td>
+                <td>{row.wins}-{row.losses}</td>
+                <td>{formatPercent(row.wins / (row.wins + row.losses))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function PlayerPage() {
+  const { id } = useParams<{ id: string }>();
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { tour, setTour, completedOnly } = useStore();
+
+  useEffect(() => {
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json())
+    ])
+      .then(([playersData, tournamentsData, matchesData]) => {
+        // A link to a player on the other tour switches tours (and reloads)
+        const linked = (playersData as Player[]).find(p => p.id === id);
+        if (linked && linked.tour !== tour) {
+          setTour(linked.tour);
+          return;
+        }
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error loading data:', err);
+        setLoading(false);
+      });
+  }, [tour, id, setTour]);
+
+  const tournamentsMap = useMemo(() => new Map(tournaments.map(t => [t.id, t])), [tournaments]);
+  const playersMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+
+  const profile = useMemo(
+    () => (id ? computePlayerProfile(id, filterByStatus(matches, completedOnly), tournamentsMap) : null),
+    [id, matches, completedOnly, tournamentsMap]
+  );
+
+  if (loading) {
+    return (
+      <div className="app-loading">
+        <div className="loading-spinner">Loading {tour} match data...</div>
+      </div>
+    );
+  }
+
+  const player = id ? playersMap.get(id) : undefined;
+  if (!player || !profile) {
+    return (
+      <div className="player-page">
+        <div className="chart-container">
+          <h3>Player not found</h3>
+        </div>
+      </div>
+    );
+  }
+
+  const titles = profile.finals.filter(f => f.won);
+  const latestRanking = profile.rankingHistory[profile.rankingHistory.length - 1];
+  const opponentName = (match: Match) =>
+    playersMap.get(match.winnerId === player.id ? match.loserId : match.winnerId)?.name;
+  const opponentId = (match: Match) => (match.winnerId === player.id ? match.loserId : match.winnerId);
+
+  return (
+    <div className="player-page">
+      <div className="profile-header">
+        <div>
+          <h2>{player.name}</h2>
+          {formatPlayerDetails(player) && <p>{formatPlayerDetails(player)}</p>}
+        </div>
+        <div className="profile-summary">
+          <div className="summary-item">
+            <span className="summary-label">Career W-L</span>
+            <span className="summary-value">{profile.overall.wins}-{profile.overall.losses}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Titles</span>
+            <span className="summary-value">{titles.length}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Finals</span>
+            <span className="summary-value">{profile.finals.length}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Latest Rank</span>
+            <span className="summary-value">{latestRanking?.rank ?? '-'}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="recent-form">
+        <h3>Recent Form</h3>
+        <div className="form-badges">
+          {profile.recentForm.map(({ match, won }) => (
+            <span
+              key={match.id}
+              className={`form-badge ${won ? 'win' : 'loss'}`}
+              title={`${won ? 'W' : 'L'} vs ${opponentName(match) || 'Unknown'} – ${getTournamentDisplayName(tournamentsMap.get(match.tournamentId))} ${formatRound(match.round)}`}
+            >
+              {won ? 'W' : 'L'}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <RankingHistoryChart history={profile.rankingHistory} tournamentsMap={tournamentsMap} />
+
+      <div className="profile-grid">
+        <RecordTable title="By Year" rows={profile.byYear} />
+        <RecordTable title="By Surface" rows={profile.bySurface} />
+        <RecordTable title="By Series" rows={profile.bySeries} />
+        <RecordTable title="By Round" rows={profile.byRound} formatKey={formatRound} />
+        <RecordTable title="By Format" rows={profile.byBestOf} />
+      </div>
+
+      <div className="profile-grid">
+        <div className="chart-container">
+          <h3>Finals</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Tournament</th>
+                  <th>Opponent</th>
+                  <th>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.finals.map(({ match, tournament, won }) => (
+                  <tr key={match.id} className={won ? 'highlighted' : ''}>
+                    <td>{match.date}</td>
+                    <td><TournamentLink tournament={tournament} /></td>
+                    <td><PlayerLink playerId={opponentId(match)} name={opponentName(match)} /></td>
+                    <td>{won ? 'Won' : 'Runner-up'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="chart-container">
+          <h3>Best Wins by Opponent Rank</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Opponent</th>
+                  <th>Rank</th>
+                  <th>Tournament</th>
+                  <th>Round</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.bestWins.map(({ match, opponentId: beatenId, opponentRank }) => (
+                  <tr key={match.id}>
+                    <td>{match.date}</td>
+                    <td><PlayerLink playerId={beatenId} name={playersMap.get(beatenId)?.name} /></td>
+                    <td>{opponentRank}</td>
+                    <td><TournamentLink tournament={tournamentsMap.get(match.tournamentId)} /></td>
+                    <td>{formatRound(match.round)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="chart-container">
+          <h3>Longest Win Streaks</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Wins</th>
+                  <th>From</th>
+                  <th>To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profile.longestStreaks.map(streak => (
+                  <tr key={streak.startDate}>
+                    <td>{streak.length}</td>
+                    <td>{streak.startDate}</td>
+                    <td>{streak.ongoing ? 'Ongoing' : streak.endDate}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,12 @@
  * Points Timeline Page
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { PointsTimelineChart } from '../components/insights/PointsTimelineChart';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
+import { computeEloRatings } from '../utils/elo';
 import type { Match, Tournament, Player } from '../types';
 
 export function PointsTimelinePage() {
@@ -11,37 +15,49 @@ export function PointsTimelinePage() {
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
+  const { tour, completedOnly } = useStore();
 
   useEffect(() => {
-    // Load data from consolidated JSON files (includes all years)
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
     Promise.all([
       fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json())
     ])
       .then(([playersData, tournamentsData, matchesData]) => {
-        setPlayers(playersData);
-        setTournaments(tournamentsData);
-        setMatches(matchesData);
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
         setLoading(false);
       })
       .catch(err => {
         console.error('Error loading data:', err);
         setLoading(false);
       });
-  }, []);
+  }, [tour]);
+
+  const visibleMatches = useMemo(() => filterByStatus(matches, completedOnly), [matches, completedOnly]);
+
+  // Ratings are computed in the browser over every match of the tour, so the
+  // status filter only hides points and never changes a rating
+  const eloHistory = useMemo(() => {
+    const tournamentsMap = new Map(tournaments.map(t => [t.id, t]));
+    return computeEloRatings(matches, m => tournamentsMap.get(m.tournamentId)?.surface).history;
+  }, [matches, tournaments]);
 
   if (loading) {
     return (
       <div className="app-loading">
-        <div className="loading-spinner">Loading ATP match data...</div>
+        <div className="loading-spinner">Loading {tour} match data...</div>
       </div>
     );
   }
 
   return (
     <div className="points-timeline-page">
-      <PointsTimelineChart matches={matches} tournaments={tournaments} players={players} />
+      <PointsTimelineChart matches={visibleMatches} tournaments={tournaments} players={players} eloHistory={eloHistory} />
     </div>
   );
 }
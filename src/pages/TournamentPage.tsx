@@ -0,0 +1,217 @@
+/**
+ * Tournament History Page
+ * Every edition of one tournament: champions, field strength and match stats
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { PlayerLink } from '../components/PlayerLink';
+import { bracketPath } from '../components/TournamentLink';
+import { summarizeEdition } from '../utils/tournamentStats';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
+import { getTournamentDisplayName } from '../utils/tournamentNames';
+import { formatCategoryHistory } from '../utils/series';
+import { formatDecimal, formatPercent, formatScore } from '../utils/d3/formatters';
+import type { Match, Derived, Tournament, Player, EventMetadata } from '../types';
+
+export function TournamentPage() {
+  const { eventId } = useParams<{ eventId: string }>();
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [derived, setDerived] = useState<Derived[]>([]);
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [events, setEvents] = useState<EventMetadata[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { tour, completedOnly } = useStore();
+
+  useEffect(() => {
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
+    Promise.all([
+      fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/derived.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/events.json`).then(r => r.json())
+    ])
+      .then(([playersData, tournamentsData, matchesData, derivedData, catalog]) => {
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData, derived: derivedData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setDerived(scoped.derived);
+        setEvents(catalog.events);
+        setLoading(false);
+      })
+      .catch(err => {
+        console.error('Error loading data:', err);
+        setLoading(false);
+      });
+  }, [tour]);
+
+  const playersMap = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const derivedMap = useMemo(() => new Map(derived.map(d => [d.matchId, d])), [derived]);
+
+  const editions = useMemo(() => {
+    const visibleMatches = filterByStatus(matches, completedOnly);
+    return tournaments
+      .filter(t => t.eventId === eventId)
+      .sort((a, b) => b.year - a.year)
+      .map(t => summarizeEdition(t, visibleMatches, derivedMap));
+  }, [tournaments, eventId, matches, completedOnly, derivedMap]);
+
+  // Titles per champion across all editions
+  const titleLeaders = useMemo(() => {
+    const counts = new Map<string, number>();
+    editions.forEach(e => {
+      if (e.championId) counts.set(e.championId, (counts.get(e.championId) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [editions]);
+
+  if (loading) {
+    return (
+      <div className="app-loading">
+        <div className="loading-spinner">Loading {tour} match data...</div>
+      </div>
+    );
+  }
+
+  if (editions.length === 0) {
+    return (
+      <div className="tournament-page">
+        <div className="chart-container">
+          <h3>Tournament not found</h3>
+        </div>
+      </div>
+    );
+  }
+
+  const latest = editions[0].tournament;
+  const metadata = events.find(e => e.id === eventId);
+  const averageOf = (values: Array<number | undefined>) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? defined.reduce((sum, v) => sum + v, 0) / defined.length : undefined;
+  };
+  const overallUpsetRate = averageOf(editions.map(e => e.upsetRate));
+  const overallFieldRank = averageOf(editions.map(e => e.averageFieldRank));
+  const overallGames = averageOf(editions.map(e => e.averageGames));
+
+  return (
+    <div className="tournament-page">
+      <div className="profile-header">
+        <div>
+          <h2>{getTournamentDisplayName(latest)}</h2>
+          <p>{latest.location} • {latest.series} • {latest.surface} • {latest.court}</p>
+          {metadata && (
+            <p>
+              {metadata.city}, {metadata.country} • Draw of {metadata.drawSize} • Week {metadata.week} •{' '}
+              {formatCategoryHistory(metadata.categories)}
+            </p>
+          )}
+        </div>
+        <div className="profile-summary">
+          <div className="summary-item">
+            <span className="summary-label">Editions</span>
+            <span className="summary-value">{editions.length}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Avg Field Rank</span>
+            <span className="summary-value">{overallFieldRank !== undefined ? Math.round(overallFieldRank) : '-'}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Upset Rate</span>
+            <span className="summary-value">{overallUpsetRate !== undefined ? formatPercent(overallUpsetRate) : '-'}</span>
+          </div>
+          <div className="summary-item">
+            <span className="summary-label">Avg Games</span>
+            <span className="summary-value">{overallGames !== undefined ? formatDecimal(overallGames) : '-'}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="chart-container">
+        <h3>Editions</h3>
+        <div className="table-wrapper">
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>Year</th>
+                <th>Champion</th>
+                <th>Runner-up</th>
+                <th>Final</th>
+                <th>Field</th>
+                <th>Avg Field Rank</th>
+                <th>Seeds Beaten</th>
+                <th>Upset Rate</th>
+                <th>Avg Games</th>
+                <th>Avg Sets</th>
+                <th>Bracket</th>
+              </tr>
+            </thead>
+            <tbody>
+              {editions.map(edition => (
+                <tr key={edition.tournament.id}>
+                  <td>
+                    {edition.tournament.year}
+                    {(edition.tournament.name !== latest.name || edition.tournament.location !== latest.location) && (
+                      <div className="edition-note">{edition.tournament.name}, {edition.tournament.location}</div>
+                    )}
+                  </td>
+                  <td>
+                    {edition.championId
+                      ? <PlayerLink playerId={edition.championId} name={playersMap.get(edition.championId)?.name} />
+                      : '-'}
+                  </td>
+                  <td>
+                    {edition.finalistId
+                      ? <PlayerLink playerId={edition.finalistId} name={playersMap.get(edition.finalistId)?.name} />
+                      : '-'}
+                  </td>
+                  <td>{edition.final ? formatScore(edition.final.w, edition.final.l, edition.final.status) : '-'}</td>
+                  <td>{edition.fieldSize}</td>
+                  <td>{edition.averageFieldRank !== undefined ? Math.round(edition.averageFieldRank) : '-'}</td>
+                  <td>{edition.seedsBeaten} / {edition.seeds}</td>
+                  <td>{edition.upsetRate !== undefined ? formatPercent(edition.upsetRate) : '-'}</td>
+                  <td>{edition.averageGames !== undefined ? formatDecimal(edition.averageGames) : '-'}</td>
+                  <td>{edition.averageSets !== undefined ? formatDecimal(edition.averageSets) : '-'}</td>
+                  <td>
+                    {edition.final
+                      ? <Link to={bracketPath(edition.tournament.id)} className="tournament-link">View</Link>
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {titleLeaders.length > 0 && (
+        <div className="chart-container">
+          <h3>Most Titles</h3>
+          <div className="table-wrapper">
+            <table className="results-table">
+              <thead>
+                <tr>
+                  <th>Player</th>
+                  <th>Titles</th>
+                </tr>
+              </thead>
+              <tbody>
+                {titleLeaders.map(([playerId, count]) => (
+                  <tr key={playerId}>
+                    <td><PlayerLink playerId={playerId} name={playersMap.get(playerId)?.name} /></td>
+                    <td>{count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,46 +2,57 @@
  * Upset Scatter Plot Page
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { UpsetScatterPlot } from '../components/insights/UpsetScatterPlot';
-import type { Match, Tournament, Player } from '../types';
+import { useStore } from '../state/store';
+import { scopeToTour } from '../utils/tour';
+import { filterByStatus } from '../utils/matchStatus';
+import type { Match, Derived, Tournament, Player } from '../types';
 
 export function UpsetScatterPage() {
   const [matches, setMatches] = useState<Match[]>([]);
+  const [derived, setDerived] = useState<Derived[]>([]);
   const [tournaments, setTournaments] = useState<Tournament[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(true);
+  const { tour, completedOnly } = useStore();
   
   useEffect(() => {
-    // Load data from consolidated JSON files (includes all years)
+    setLoading(true);
+    // Load data from consolidated JSON files (all years, scoped to the selected tour)
     Promise.all([
       fetch(`${import.meta.env.BASE_URL}data/players.json`).then(r => r.json()),
       fetch(`${import.meta.env.BASE_URL}data/tournaments.json`).then(r => r.json()),
-      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json())
+      fetch(`${import.meta.env.BASE_URL}data/matches.json`).then(r => r.json()),
+      fetch(`${import.meta.env.BASE_URL}data/derived.json`).then(r => r.json())
     ])
-      .then(([playersData, tournamentsData, matchesData]) => {
-        setPlayers(playersData);
-        setTournaments(tournamentsData);
-        setMatches(matchesData);
+      .then(([playersData, tournamentsData, matchesData, derivedData]) => {
+        const scoped = scopeToTour({ players: playersData, tournaments: tournamentsData, matches: matchesData, derived: derivedData }, tour);
+        setPlayers(scoped.players);
+        setTournaments(scoped.tournaments);
+        setMatches(scoped.matches);
+        setDerived(scoped.derived);
         setLoading(false);
       })
       .catch(err => {
         console.error('Error loading data:', err);
         setLoading(false);
       });
-  }, []);
+  }, [tour]);
+
+  const visibleMatches = useMemo(() => filterByStatus(matches, completedOnly), [matches, completedOnly]);
 
   if (loading) {
     return (
       <div className="app-loading">
-        <div className="loading-spinner">Loading ATP match data...</div>
+        <div className="loading-spinner">Loading {tour} match data...</div>
       </div>
     );
   }
   
   return (
     <div className="upset-scatter-page">
-      <UpsetScatterPlot matches={matches} tournaments={tournaments} players={players} />
+      <UpsetScatterPlot matches={visibleMatches} derived={derived} tournaments={tournaments} players={players} />
     </div>
   );
 }
@@ -1,12 +1,17 @@
 /**
  * Global state management using Zustand
- * Handles filters and URL synchronization
+ * Handles the selected tour, filters and URL synchronization
  */
 
 import { create } from 'zustand';
-import type { Surface, Series, Round } from '../types';
+import { isSeries } from '../utils/series';
+import { isTour } from '../utils/tour';
+import type { Surface, Series, Round, Tour } from '../types';
 
 export interface FilterState {
+  // Tour every page is scoped to (kept by clearFilters)
+  tour: Tour;
+
   // Filter values
   surface: Surface | null;
   series: Series | null;
@@ -14,8 +19,10 @@ export interface FilterState {
   rounds: Round[];
   dateRange: [string, string] | null; // [startDate, endDate] in ISO format
   playerIds: string[]; // Pinned players (max 3)
+  completedOnly: boolean; // Hide retirements, walkovers and awarded matches
   
   // Actions
+  setTour: (tour: Tour) => void;
   setSurface: (surface: Surface | null) => void;
   setSeries: (series: Series | null) => void;
   setTournamentId: (tournamentId: string | null) => void;
@@ -24,6 +31,7 @@ export interface FilterState {
   setDateRange: (range: [string, string] | null) => void;
   setPlayerIds: (playerIds: string[]) => void;
   togglePlayer: (playerId: string) => void;
+  setCompletedOnly: (completedOnly: boolean) => void;
   clearFilters: () => void;
   
   // URL sync helpers
@@ -37,12 +45,17 @@ const initialState = {
   tournamentId: null,
   rounds: [],
   dateRange: null,
-  playerIds: []
+  playerIds: [],
+  completedOnly: false
 };
 
 export const useStore = create<FilterState>((set, get) => ({
+  tour: 'ATP',
   ...initialState,
   
+  // Player, tournament and series picks belong to one tour, so they are dropped on a switch
+  setTour: (tour) => set({ tour, series: null, tournamentId: null, playerIds: [] }),
+  
   setSurface: (surface) => set({ surface }),
   
   setSeries: (series) => set({ series }),
@@ -75,12 +88,15 @@ export const useStore = create<FilterState>((set, get) => ({
     set({ playerIds: newPlayerIds });
   },
   
+  setCompletedOnly: (completedOnly) => set({ completedOnly }),
+  
   clearFilters: () => set(initialState),
   
   syncToURL: () => {
     const state = get();
     const params = new URLSearchParams();
     
+    if (state.tour !== 'ATP') params.set('tour', state.tour);
     if (state.surface) params.set('surface', state.surface);
     if (state.series) params.set('series', state.series);
     if (state.tournamentId) params.set('tournament', state.tournamentId);
@@ -90,6 +106,7 @@ export const useStore = create<FilterState>((set, get) => ({
       params.set('endDate', state.dateRange[1]);
     }
     if (state.playerIds.length > 0) params.set('players', state.playerIds.join(','));
+    if (state.completedOnly) params.set('completed', '1');
     
     const newURL = `${window.location.pathname}${params.toString() ? '?' + params.toString() : ''}`;
     window.history.replaceState({}, '', newURL);
@@ -97,6 +114,7 @@ export const useStore = create<FilterState>((set, get) => ({
   
   loadFromURL: () => {
     const params = new URLSearchParams(window.location.search);
+    const tour = params.get('tour');
     const surface = params.get('surface') as Surface | null;
     const series = params.get('series') as Series | null;
     const tournamentId = params.get('tournament');
@@ -104,14 +122,17 @@ export const useStore = create<FilterState>((set, get) => ({
     const startDate = params.get('startDate');
     const endDate = params.get('endDate');
     const playersStr = params.get('players');
+    const completed = params.get('completed');
     
     set({
+      tour: tour && isTour(tour) ? tour : 'ATP',
       surface: surface && ['Hard', 'Clay', 'Grass', 'Carpet'].includes(surface) ? surface : null,
-      series: series && ['Grand Slam', 'Masters', 'ATP500', 'ATP250'].includes(series) ? series : null,
+      series: series && isSeries(series) ? series : null,
       tournamentId: tournamentId || null,
       rounds: roundsStr ? roundsStr.split(',') as Round[] : [],
       dateRange: startDate && endDate ? [startDate, endDate] : null,
-      playerIds: playersStr ? playersStr.split(',') : []
+      playerIds: playersStr ? playersStr.split(',') : [],
+      completedOnly: completed === '1'
     });
   }
 }));
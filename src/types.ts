@@ -1,34 +1,124 @@
 /**
- * Type definitions for ATP Match Analytics
+ * Type definitions for ATP/WTA Match Analytics
  */
 
 export type Round = "1R" | "2R" | "3R" | "4R" | "QF" | "SF" | "F" | "RR" | "Q1" | "Q2" | "Q3";
 
+export type Tour = "ATP" | "WTA";
+
+export type Hand = "Right" | "Left";
+export type Backhand = "One-handed" | "Two-handed";
+
 export interface Player {
   id: string;
   name: string;
+  tour: Tour;
   aliases?: string[];
+  // From the roster file, for players it lists
+  fullName?: string;
+  country?: string; // IOC code
+  hand?: Hand;
+  backhand?: Backhand;
+  birthdate?: string; // ISO date
+  height?: number; // cm
 }
 
-export type Series = "Grand Slam" | "Masters" | "ATP500" | "ATP250";
+/**
+ * ATP tournament category. Pre-2009 files use the older names, which are kept
+ * as they appear in the data rather than mapped onto the current ones.
+ */
+export type AtpSeries =
+  | "Grand Slam"
+  | "Masters Cup"
+  | "Masters"
+  | "ATP500"
+  | "ATP250"
+  | "International Gold"
+  | "International";
+
+/**
+ * WTA tournament category, from the Tier column. Like the ATP names, each era's
+ * labels are kept: Tier I-V (to 2008), Premier/International (2009-2020),
+ * then WTA1000/500/250.
+ */
+export type WtaTier =
+  | "Grand Slam"
+  | "Tour Championships"
+  | "Elite Trophy"
+  | "WTA1000"
+  | "Premier Mandatory"
+  | "Premier 5"
+  | "WTA500"
+  | "Premier"
+  | "WTA250"
+  | "International"
+  | "Tier I"
+  | "Tier II"
+  | "Tier III"
+  | "Tier IV"
+  | "Tier V";
+
+export type Series = AtpSeries | WtaTier;
 export type Court = "Indoor" | "Outdoor";
 export type Surface = "Hard" | "Clay" | "Grass" | "Carpet";
 
 export interface Tournament {
   id: string;
+  eventId: string; // Stable across years, renames and moves; groups an event's editions
+  previousEditionId?: string;
+  nextEditionId?: string;
+  tour: Tour;
   year: number;
   name: string;
   commonName?: string; // Common/shortened name for display (e.g., "Indian Wells" instead of "BNP Paribas Open")
   location: string;
+  country?: string; // IOC code of the host country, from the event registry
   series: Series;
   court: Court;
   surface: Surface;
 }
 
+/**
+ * The category an event was played in from a given season on
+ */
+export interface EventCategory {
+  from: number;
+  series: Series;
+}
+
+/**
+ * Metadata of one event across its editions, from src/data/eventRegistry.json
+ */
+export interface EventMetadata {
+  id: string; // The event id its editions carry
+  tour: Tour;
+  commonName: string;
+  city: string; // Current host city
+  country: string; // IOC code
+  drawSize: number; // Main draw size of the latest edition
+  categories: EventCategory[]; // Oldest first
+  week: number; // Typical ISO calendar week of the first match
+}
+
+/**
+ * events.json: the registry version and the metadata of every registered event
+ */
+export interface EventCatalog {
+  version: number;
+  events: EventMetadata[];
+}
+
+/**
+ * How a match ended, normalized from the CSV Comment column
+ * - Awarded: decided by default or disqualification, possibly after some play
+ */
+export type MatchStatus = 'Completed' | 'Retired' | 'Walkover' | 'Awarded';
+
 export interface Match {
   id: string;
   tournamentId: string;
   date: string; // ISO date string
+  seq: number; // Chronological position among all matches; orders matches that share a date
   round: Round;
   bestOf: 3 | 5;
   winnerId: string;
@@ -41,9 +131,18 @@ export interface Match {
   l: number[]; // Games lost per set [L1, L2, L3, L4, L5]
   wsets: number;
   lsets: number;
-  comment?: string;
+  status: MatchStatus;
 }
 
+/**
+ * Outcome of the ingest score consistency check
+ * - consistent: legal set scores that agree with Wsets/Lsets and the format
+ * - retired: ended early (retirement or awarded) with a plausible partial score
+ * - walkover: no games played
+ * - corrupt: set scores, set counts or format disagree
+ */
+export type ScoreStatus = 'consistent' | 'retired' | 'walkover' | 'corrupt';
+
 export interface Derived {
   matchId: string;
   rankDiff?: number; // wRank - lRank (positive = higher rank difference)
@@ -53,8 +152,75 @@ export interface Derived {
   straightSets: boolean; // Winner won in straight sets
   hasTiebreak: boolean; // Any set went to 7-6 or similar tiebreak
   upset?: boolean; // Lower ranked player won (lRank < wRank if both exist)
+  marketUpset?: boolean; // Market underdog won (winner implied probability < 50%)
+  upsetMagnitude?: number; // Market implied probability of the winner (lower = bigger upset)
+  wElo?: number; // Winner's overall Elo before the match
+  lElo?: number; // Loser's overall Elo before the match
+  wSurfaceElo?: number; // Winner's surface Elo before the match
+  lSurfaceElo?: number; // Loser's surface Elo before the match
+  eloWinProb?: number; // Winner's pre-match win probability from overall Elo
+  scoreStatus: ScoreStatus; // Result of the ingest score consistency check
+}
+
+/**
+ * One point in a player's Elo history (ratings after the match)
+ */
+export interface EloPoint {
+  matchId: string;
+  date: string;
+  surface?: Surface;
+  elo: number;
+  surfaceElo: number;
 }
 
+/**
+ * How an upset is defined: by entry ranking or by pre-match odds
+ */
+export type UpsetDefinition = "rank" | "market";
+
+/**
+ * Bookmakers whose pre-match odds appear in the year CSVs.
+ * Max/Avg are the Oddsportal aggregates, BFE is the Betfair exchange.
+ * The rest only appear in older files: Bet&Win, Centrebet, Expekt,
+ * Gamebookers, Interwetten, Ladbrokes, Sportingbet, Stan James and Unibet.
+ */
+export type Bookmaker =
+  | "B365"
+  | "PS"
+  | "Max"
+  | "Avg"
+  | "BFE"
+  | "B&W"
+  | "CB"
+  | "EX"
+  | "GB"
+  | "IW"
+  | "LB"
+  | "SB"
+  | "SJ"
+  | "UB";
+
+export interface BookOdds {
+  w: number; // Decimal odds on the match winner
+  l: number; // Decimal odds on the match loser
+  wImplied: number; // 1 / w
+  lImplied: number; // 1 / l
+  overround: number; // wImplied + lImplied - 1 (the book's margin)
+  wProb: number; // Winner probability with the margin removed
+  lProb: number; // Loser probability with the margin removed
+}
+
+export interface MatchOdds {
+  matchId: string;
+  books: Partial<Record<Bookmaker, BookOdds>>;
+}
+
+/**
+ * How a player entered the main draw, when not directly accepted:
+ * qualifier or lucky loser
+ */
+export type DrawEntry = "Q" | "LL";
+
 /**
  * Defines the structure for a D3-compatible hierarchy node.
  * Each node represents a single match for the bracket.
@@ -66,11 +232,59 @@ export interface BracketNode {
   // Custom data we want to store on the node
   attributes: {
     round: Round;
+    slot: number; // Position within its round, 0 = top of the draw
+    winnerId: string;
+    loserId?: string; // Absent when the winner had a bye
     winnerName: string;
     loserName: string;
+    winnerSeed?: number;
+    loserSeed?: number;
+    winnerEntry?: DrawEntry;
+    loserEntry?: DrawEntry;
     score: string;
   };
   
-  // The children nodes (the two matches that fed into this one)
+  // The children nodes (the two matches that fed into this one), top slot first
   children: BracketNode[];
-}
\ No newline at end of file
+}
+
+/**
+ * One player's line in a round-robin group table
+ */
+export interface GroupStanding {
+  playerId: string;
+  playerName: string;
+  rank?: number; // Entry ranking
+  played: number;
+  wins: number;
+  losses: number;
+  setsWon: number;
+  setsLost: number;
+  gamesWon: number;
+  gamesLost: number;
+  qualified: boolean; // Reached the knockout phase
+}
+
+export interface GroupMatch {
+  matchId: string;
+  winnerId: string;
+  loserId: string;
+  winnerName: string;
+  loserName: string;
+  score: string;
+}
+
+export interface RoundRobinGroup {
+  name: string; // "Group A" holds the best-ranked entrant
+  standings: GroupStanding[]; // Final order after tie-breaks
+  matches: GroupMatch[]; // In the order they were played
+}
+
+/**
+ * Group stage of a round-robin event (e.g. the season finals). The knockout
+ * phase that follows is the regular bracket.
+ */
+export interface GroupStage {
+  tournamentId: string;
+  groups: RoundRobinGroup[];
+}
@@ -0,0 +1,175 @@
+/**
+ * Betting Backtest Utilities
+ * Replays simple flat-stake strategies over historical matches and odds
+ */
+
+import { compareMatchesChronologically } from './elo';
+import type { Bookmaker, Match, MatchOdds, Surface, Tournament } from '../types';
+
+/**
+ * Which side of a match record a strategy backs
+ */
+export type BetSide = 'winner' | 'loser';
+
+export interface StrategyContext {
+  tournament: Tournament | undefined;
+  odds: { w: number; l: number };
+  // Record on a surface from matches played strictly before this one
+  surfaceRecord: (playerId: string, surface: Surface) => { wins: number; total: number };
+}
+
+export interface StakingStrategy {
+  id: string;
+  name: string;
+  description: string;
+  pick: (match: Match, ctx: StrategyContext) => BetSide | null;
+}
+
+export interface BetRecord {
+  matchId: string;
+  date: string;
+  side: BetSide;
+  odds: number;
+  profit: number; // Profit of this 1-unit bet
+  cumulativeProfit: number;
+  cumulativeRoi: number; // cumulativeProfit / units staked so far
+}
+
+export interface BacktestResult {
+  strategy: StakingStrategy;
+  bets: BetRecord[];
+  wins: number;
+  hitRate: number;
+  profit: number;
+  roi: number;
+  maxDrawdown: number; // Largest peak-to-trough fall in cumulative profit (units)
+}
+
+// Players need this many prior matches on a surface before their win rate is trusted
+const MIN_SURFACE_MATCHES = 10;
+
+export const STRATEGIES: StakingStrategy[] = [
+  {
+    id: 'higher-ranked',
+    name: 'Back the higher-ranked player',
+    description: 'Stake 1 unit on the player with the better entry ranking',
+    pick: (match) => {
+      if (match.wRank === undefined || match.lRank === undefined || match.wRank === match.lRank) {
+        return null;
+      }
+      return match.wRank < match.lRank ? 'winner' : 'loser';
+    }
+  },
+  {
+    id: 'clay-underdogs',
+    name: 'Back underdogs on clay',
+    description: 'Stake 1 unit on the longer-priced player in every clay match',
+    pick: (_, ctx) => {
+      if (ctx.tournament?.surface !== 'Clay' || ctx.odds.w === ctx.odds.l) return null;
+      return ctx.odds.w > ctx.odds.l ? 'winner' : 'loser';
+    }
+  },
+  {
+    id: 'surface-win-rate',
+    name: 'Back the better surface win rate',
+    description: `Stake 1 unit on the player with the higher win rate on the match surface (min. ${MIN_SURFACE_MATCHES} prior matches each)`,
+    pick: (match, ctx) => {
+      const surface = ctx.tournament?.surface;
+      if (!surface) return null;
+      const w = ctx.surfaceRecord(match.winnerId, surface);
+      const l = ctx.surfaceRecord(match.loserId, surface);
+      if (w.total < MIN_SURFACE_MATCHES || l.total < MIN_SURFACE_MATCHES) return null;
+      const wRate = w.wins / w.total;
+      const lRate = l.wins / l.total;
+      if (wRate === lRate) return null;
+      return wRate > lRate ? 'winner' : 'loser';
+    }
+  }
+];
+
+/**
+ * Run every strategy over the matches in chronological order.
+ * History (surface records) is built from all matches, but bets are only
+ * placed on matches accepted by `include`, so filters never leak future results.
+ */
+export function runBacktest(
+  matches: Match[],
+  tournamentsMap: Map<string, Tournament>,
+  oddsMap: Record<string, MatchOdds>,
+  book: Bookmaker,
+  include: (match: Match) => boolean,
+  strategies: StakingStrategy[] = STRATEGIES
+): BacktestResult[] {
+  const sortedMatches = [...matches].sort(compareMatchesChronologically);
+  const surfaceRecords = new Map<string, { wins: number; total: number }>();
+  const surfaceRecord = (playerId: string, surface: Surface) =>
+    surfaceRecords.get(`${playerId}|${surface}`) ?? { wins: 0, total: 0 };
+
+  const results: BacktestResult[] = strategies.map(strategy => ({
+    strategy,
+    bets: [],
+    wins: 0,
+    hitRate: 0,
+    profit: 0,
+    roi: 0,
+    maxDrawdown: 0
+  }));
+  const peaks = results.map(() => 0);
+
+  sortedMatches.forEach(match => {
+    const tournament = tournamentsMap.get(match.tournamentId);
+    const bookOdds = oddsMap[match.id]?.books[book];
+
+    // Walkovers and awarded matches are void at the books
+    const settled = match.status !== 'Walkover' && match.status !== 'Awarded';
+
+    if (bookOdds && settled && include(match)) {
+      const ctx: StrategyContext = {
+        tournament,
+        odds: { w: bookOdds.w, l: bookOdds.l },
+        surfaceRecord
+      };
+
+      results.forEach((result, i) => {
+        const side = result.strategy.pick(match, ctx);
+        if (!side) return;
+
+        const odds = side === 'winner' ? bookOdds.w : bookOdds.l;
+        const profit = side === 'winner' ? odds - 1 : -1;
+        result.profit += profit;
+        if (side === 'winner') result.wins++;
+
+        peaks[i] = Math.max(peaks[i], result.profit);
+        result.maxDrawdown = Math.max(result.maxDrawdown, peaks[i] - result.profit);
+
+        result.bets.push({
+          matchId: match.id,
+          date: match.date,
+          side,
+          odds,
+          profit,
+          cumulativeProfit: result.profit,
+          cumulativeRoi: result.profit / (result.bets.length + 1)
+        });
+      });
+    }
+
+    // Update surface history only after the match has been bet on
+    if (tournament) {
+      const winnerKey = `${match.winnerId}|${tournament.surface}`;
+      const loserKey = `${match.loserId}|${tournament.surface}`;
+      const winnerRecord = surfaceRecords.get(winnerKey) ?? { wins: 0, total: 0 };
+      const loserRecord = surfaceRecords.get(loserKey) ?? { wins: 0, total: 0 };
+      surfaceRecords.set(winnerKey, { wins: winnerRecord.wins + 1, total: winnerRecord.total + 1 });
+      surfaceRecords.set(loserKey, { wins: loserRecord.wins, total: loserRecord.total + 1 });
+    }
+  });
+
+  results.forEach(result => {
+    const betCount = result.bets.length;
+    result.hitRate = betCount > 0 ? result.wins / betCount : 0;
+    result.roi = betCount > 0 ? result.profit / betCount : 0;
+  });
+
+  return results;
+}
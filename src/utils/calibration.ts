@@ -0,0 +1,83 @@
+/**
+ * Calibration Utilities
+ * Scoring rules and reliability bins for probabilistic forecasts
+ */
+
+export interface ProbabilitySample {
+  probability: number; // Forecast probability of the outcome
+  outcome: boolean; // Whether the outcome happened
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  actualRate: number;
+}
+
+export interface ForecastScore {
+  count: number;
+  brier: number;
+  logLoss: number;
+  accuracy: number; // Share of samples where the favoured side happened
+}
+
+// Keeps log-loss finite for forecasts of exactly 0 or 1
+const EPSILON = 1e-6;
+
+/**
+ * Bucket forecasts into equal-width probability bins (empty bins are dropped)
+ */
+export function calibrationBins(samples: ProbabilitySample[], binCount: number = 10): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, (_, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: 0,
+    predictedSum: 0,
+    outcomes: 0
+  }));
+
+  samples.forEach(sample => {
+    const index = Math.min(binCount - 1, Math.floor(sample.probability * binCount));
+    const bin = bins[index];
+    bin.count++;
+    bin.predictedSum += sample.probability;
+    if (sample.outcome) bin.outcomes++;
+  });
+
+  return bins
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      count: bin.count,
+      meanPredicted: bin.predictedSum / bin.count,
+      actualRate: bin.outcomes / bin.count
+    }));
+}
+
+export function scoreForecasts(samples: ProbabilitySample[]): ForecastScore {
+  if (samples.length === 0) {
+    return { count: 0, brier: 0, logLoss: 0, accuracy: 0 };
+  }
+
+  let brier = 0;
+  let logLoss = 0;
+  let correct = 0;
+
+  samples.forEach(({ probability, outcome }) => {
+    const p = Math.min(1 - EPSILON, Math.max(EPSILON, probability));
+    const y = outcome ? 1 : 0;
+    brier += (probability - y) ** 2;
+    logLoss -= outcome ? Math.log(p) : Math.log(1 - p);
+    if ((probability >= 0.5) === outcome) correct++;
+  });
+
+  return {
+    count: samples.length,
+    brier: brier / samples.length,
+    logLoss: logLoss / samples.length,
+    accuracy: correct / samples.length
+  };
+}
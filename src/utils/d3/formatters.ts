@@ -4,6 +4,7 @@
 
 import { format } from 'd3-format';
 import { timeFormat, timeParse } from 'd3-time-format';
+import type { DrawEntry, MatchStatus } from '../../types';
 
 export const formatNumber = format(',');
 export const formatDecimal = format('.2f');
@@ -32,6 +33,23 @@ export function formatRound(round: string): string {
   return roundMap[round] || round;
 }
 
+export function formatScore(w: number[], l: number[], status: MatchStatus = 'Completed'): string {
+  const score = w.map((wScore, i) => `${wScore}-${l[i]}`).join(' ');
+  if (status === 'Walkover') return 'W/O';
+  if (status === 'Retired') return `${score} (RET)`;
+  if (status === 'Awarded') return score ? `${score} (DEF)` : 'DEF';
+  return score;
+}
+
+/**
+ * Draw label for a player, e.g. "Sinner J. [1]" for a seed or "Nardi L. (Q)" for a qualifier
+ */
+export function formatDrawName(name: string, seed?: number, entry?: DrawEntry): string {
+  if (seed) return `${name} [${seed}]`;
+  if (entry) return `${name} (${entry})`;
+  return name;
+}
+
 export function formatPlayerName(name: string, maxLength: number = 20): string {
   if (name.length <= maxLength) return name;
   return name.substring(0, maxLength - 3) + '...';
@@ -3,6 +3,7 @@
  */
 
 import { scaleLinear, scaleBand, scaleOrdinal, ScaleLinear, ScaleBand, ScaleOrdinal } from 'd3-scale';
+import { SERIES_ORDER, SERIES_TIER } from '../series';
 import type { Surface, Series, Round } from '../../types';
 
 export function createLinearScale(
@@ -32,9 +33,11 @@ export const surfaceColors = createOrdinalScale<Surface>(
   ['#4A90E2', '#D4A574', '#7CB342', '#9E9E9E']
 );
 
+// Equivalent series (e.g. ATP500, International Gold, WTA500) share their tier's color
+const seriesTierPalette = ['#E91E63', '#FF9800', '#9C27B0', '#2196F3', '#00BCD4'];
 export const seriesColors = createOrdinalScale<Series>(
-  ['Grand Slam', 'Masters', 'ATP500', 'ATP250'],
-  ['#E91E63', '#9C27B0', '#2196F3', '#00BCD4']
+  SERIES_ORDER,
+  SERIES_ORDER.map(series => seriesTierPalette[SERIES_TIER[series] - 1])
 );
 
 export const roundColors = createOrdinalScale<Round>(
@@ -0,0 +1,154 @@
+/**
+ * Draw Simulator
+ * Monte Carlo replay of a tournament bracket from any round. Results before
+ * the starting round are kept as played; every later match is drawn from a
+ * win-probability function.
+ */
+
+import type { BracketNode, Round } from '../types';
+
+// Probability that player A beats player B
+export type WinProbabilityFn = (playerAId: string, playerBId: string) => number;
+
+export interface DrawRound {
+  depth: number; // Distance from the final (0 = final)
+  round: Round;
+}
+
+export interface PlayerDrawOdds {
+  playerId: string;
+  name: string;
+  reach: Record<number, number>; // depth -> probability of playing in that round
+  title: number;
+}
+
+export interface DrawSimulationResult {
+  iterations: number;
+  startDepth: number;
+  rounds: DrawRound[]; // From the starting round up to the final
+  players: Map<string, PlayerDrawOdds>;
+}
+
+export const DEFAULT_ITERATIONS = 5000;
+
+/**
+ * Rounds of a bracket tree by depth, final first.
+ * Bye placeholders are skipped so each depth is labelled by a played round.
+ */
+export function getDrawRounds(bracket: BracketNode): DrawRound[] {
+  const rounds: DrawRound[] = [];
+  const visit = (node: BracketNode, depth: number) => {
+    if (!rounds[depth] && node.attributes.loserName !== 'BYE') {
+      rounds[depth] = { depth, round: node.attributes.round };
+    }
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  visit(bracket, 0);
+  return rounds.filter(Boolean);
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so repeated runs give the same numbers
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function simulateDraw(
+  bracket: BracketNode,
+  winProbability: WinProbabilityFn,
+  startDepth: number,
+  iterations: number = DEFAULT_ITERATIONS,
+  seed: number = 1
+): DrawSimulationResult {
+  const random = createRandom(seed);
+  const players = new Map<string, PlayerDrawOdds>();
+  const reachCounts = new Map<string, Record<number, number>>();
+  const titleCounts = new Map<string, number>();
+
+  // Pairwise probabilities are stable within a run, so compute each once
+  const probabilityCache = new Map<string, number>();
+  const playMatch = (a: string, b: string): string => {
+    const key = `${a}|${b}`;
+    let probability = probabilityCache.get(key);
+    if (probability === undefined) {
+      probability = winProbability(a, b);
+      probabilityCache.set(key, probability);
+      probabilityCache.set(`${b}|${a}`, 1 - probability);
+    }
+    return random() < probability ? a : b;
+  };
+
+  const recordReach = (playerId: string, depth: number) => {
+    const counts = reachCounts.get(playerId) ?? {};
+    counts[depth] = (counts[depth] ?? 0) + 1;
+    reachCounts.set(playerId, counts);
+  };
+
+  // Register everyone who could appear from the starting round on
+  const register = (node: BracketNode, depth: number) => {
+    const { winnerId, loserId, winnerName, loserName } = node.attributes;
+    if (depth >= startDepth || node.children.length === 0) {
+      if (!players.has(winnerId)) {
+        players.set(winnerId, { playerId: winnerId, name: winnerName, reach: {}, title: 0 });
+      }
+      if (loserId && !players.has(loserId)) {
+        players.set(loserId, { playerId: loserId, name: loserName, reach: {}, title: 0 });
+      }
+    }
+    if (depth < startDepth) node.children.forEach(child => register(child, depth + 1));
+  };
+  register(bracket, 0);
+
+  // Returns the simulated winner of a node
+  const simulateNode = (node: BracketNode, depth: number): string => {
+    const { winnerId, loserId } = node.attributes;
+
+    // A bye sends the player straight through
+    if (!loserId) {
+      recordReach(winnerId, depth);
+      return winnerId;
+    }
+
+    let a: string;
+    let b: string;
+    if (depth >= startDepth || node.children.length < 2) {
+      a = winnerId;
+      b = loserId;
+    } else {
+      a = simulateNode(node.children[0], depth + 1);
+      b = simulateNode(node.children[1], depth + 1);
+    }
+
+    recordReach(a, depth);
+    recordReach(b, depth);
+    return playMatch(a, b);
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    const champion = simulateNode(bracket, 0);
+    titleCounts.set(champion, (titleCounts.get(champion) ?? 0) + 1);
+  }
+
+  players.forEach((odds, playerId) => {
+    const counts = reachCounts.get(playerId) ?? {};
+    Object.entries(counts).forEach(([depth, count]) => {
+      odds.reach[Number(depth)] = count / iterations;
+    });
+    odds.title = (titleCounts.get(playerId) ?? 0) / iterations;
+  });
+
+  return {
+    iterations,
+    startDepth,
+    rounds: getDrawRounds(bracket).filter(r => r.depth <= startDepth),
+    players
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Elo Rating Engine
+ * Walks matches chronologically and rates every player overall and per surface.
+ * Pure functions so the same engine runs at ingest time and in the browser.
+ */
+
+import { wasPlayed } from './matchStatus';
+import type { Match, Surface, EloPoint } from '../types';
+
+export const INITIAL_ELO = 1500;
+
+export interface EloOptions {
+  initialRating?: number;
+  // K = kScale / (matchesPlayed + kOffset) ^ kShape (FiveThirtyEight-style decay)
+  kScale?: number;
+  kOffset?: number;
+  kShape?: number;
+}
+
+export interface PreMatchElo {
+  wElo: number;
+  lElo: number;
+  wSurfaceElo: number;
+  lSurfaceElo: number;
+  eloWinProb: number; // Expected score of the eventual winner from overall ratings
+}
+
+export interface EloResult {
+  preMatch: Map<string, PreMatchElo>; // matchId -> ratings before the match
+  history: Map<string, EloPoint[]>; // playerId -> ratings after each match
+}
+
+/**
+ * Order by the ingest-assigned sequence number, which also orders matches that
+ * share a date (see assignMatchSequence in ingest)
+ */
+export function compareMatchesChronologically(a: Match, b: Match): number {
+  return a.seq - b.seq;
+}
+
+/**
+ * Probability that a player rated `ratingA` beats a player rated `ratingB`
+ */
+export function eloExpectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+}
+
+export function computeEloRatings(
+  matches: Match[],
+  surfaceOf: (match: Match) => Surface | undefined,
+  options: EloOptions = {}
+): EloResult {
+  const {
+    initialRating = INITIAL_ELO,
+    kScale = 250,
+    kOffset = 5,
+    kShape = 0.4
+  } = options;
+
+  const ratings = new Map<string, { rating: number; played: number }>();
+  const kFactor = (played: number) => kScale / Math.pow(played + kOffset, kShape);
+  const get = (key: string) => ratings.get(key) ?? { rating: initialRating, played: 0 };
+
+  const preMatch = new Map<string, PreMatchElo>();
+  const history = new Map<string, EloPoint[]>();
+
+  const sortedMatches = [...matches].sort(compareMatchesChronologically);
+
+  for (const match of sortedMatches) {
+    const surface = surfaceOf(match);
+    const winner = get(match.winnerId);
+    const loser = get(match.loserId);
+    const winnerSurface = surface ? get(`${match.winnerId}|${surface}`) : winner;
+    const loserSurface = surface ? get(`${match.loserId}|${surface}`) : loser;
+
+    const eloWinProb = eloExpectedScore(winner.rating, loser.rating);
+    preMatch.set(match.id, {
+      wElo: winner.rating,
+      lElo: loser.rating,
+      wSurfaceElo: winnerSurface.rating,
+      lSurfaceElo: loserSurface.rating,
+      eloWinProb
+    });
+
+    // A walkover is not a played match, so ratings do not move
+    if (!wasPlayed(match)) continue;
+
+    const surfaceWinProb = eloExpectedScore(winnerSurface.rating, loserSurface.rating);
+
+    const newWinner = { rating: winner.rating + kFactor(winner.played) * (1 - eloWinProb), played: winner.played + 1 };
+    const newLoser = { rating: loser.rating - kFactor(loser.played) * (1 - eloWinProb), played: loser.played + 1 };
+    ratings.set(match.winnerId, newWinner);
+    ratings.set(match.loserId, newLoser);
+
+    let newWinnerSurface = newWinner;
+    let newLoserSurface = newLoser;
+    if (surface) {
+      newWinnerSurface = {
+        rating: winnerSurface.rating + kFactor(winnerSurface.played) * (1 - surfaceWinProb),
+        played: winnerSurface.played + 1
+      };
+      newLoserSurface = {
+        rating: loserSurface.rating - kFactor(loserSurface.played) * (1 - surfaceWinProb),
+        played: loserSurface.played + 1
+      };
+      ratings.set(`${match.winnerId}|${surface}`, newWinnerSurface);
+      ratings.set(`${match.loserId}|${surface}`, newLoserSurface);
+    }
+
+    for (const [playerId, overall, surfaceRating] of [
+      [match.winnerId, newWinner, newWinnerSurface],
+      [match.loserId, newLoser, newLoserSurface]
+    ] as const) {
+      if (!history.has(playerId)) history.set(playerId, []);
+      history.get(playerId)!.push({
+        matchId: match.id,
+        date: match.date,
+        surface,
+        elo: overall.rating,
+        surfaceElo: surfaceRating.rating
+      });
+    }
+  }
+
+  return { preMatch, history };
+}
@@ -0,0 +1,27 @@
+/**
+ * Match Status Helpers
+ * Shared checks on how a match ended, plus the global completed-only filter
+ */
+
+import type { Match } from '../types';
+
+/**
+ * Finished normally: no retirement, walkover or default
+ */
+export function isCompleted(match: Match): boolean {
+  return match.status === 'Completed';
+}
+
+/**
+ * At least some tennis was played (walkovers are the only matches without any)
+ */
+export function wasPlayed(match: Match): boolean {
+  return match.status !== 'Walkover';
+}
+
+/**
+ * Apply the global "completed matches only" filter
+ */
+export function filterByStatus(matches: Match[], completedOnly: boolean): Match[] {
+  return completedOnly ? matches.filter(isCompleted) : matches;
+}
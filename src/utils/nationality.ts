@@ -0,0 +1,186 @@
+/**
+ * Nationality Statistics
+ * Home advantage, national records and a country leaderboard. Player countries
+ * come from the shipped country lookup (or the roster file) and host countries
+ * from the event registry, so matches missing either are left out.
+ */
+
+import { wasPlayed } from './matchStatus';
+import type { Match, Derived, Player, Surface, Tournament } from '../types';
+
+// Entry rank that counts as a top-100 player
+const TOP_RANK = 100;
+
+export interface WinLoss {
+  wins: number;
+  losses: number;
+}
+
+export interface HomeAdvantageRecord {
+  country: string;
+  matches: number;
+  wins: number;
+  expectedWins: number; // Sum of the home player's pre-match Elo win probabilities
+}
+
+export interface NationRecord extends WinLoss {
+  country: string;
+  byYear: Record<number, WinLoss>;
+  bySurface: Partial<Record<Surface, WinLoss>>;
+}
+
+export interface NationStanding {
+  country: string;
+  titles: number;
+  finals: number;
+  top100ByYear: Record<number, number>; // Distinct players entered with a top-100 ranking
+}
+
+export interface NationalityContext {
+  playersMap: Map<string, Player>;
+  tournamentsMap: Map<string, Tournament>;
+}
+
+function winLoss(): WinLoss {
+  return { wins: 0, losses: 0 };
+}
+
+function countryOf(playerId: string, ctx: NationalityContext): string | undefined {
+  return ctx.playersMap.get(playerId)?.country;
+}
+
+export interface HomeAdvantage {
+  overall: HomeAdvantageRecord;
+  byCountry: HomeAdvantageRecord[];
+  missingCountry: number; // Matches at a known host left out because a player's country is unknown
+}
+
+/**
+ * Home-soil record against foreign opponents, per host country and overall.
+ * Only matches with exactly one home player and a pre-match Elo rating count;
+ * the expectation is what Elo gave the home player before the match.
+ */
+export function computeHomeAdvantage(
+  matches: Match[],
+  derivedMap: Map<string, Derived>,
+  ctx: NationalityContext
+): HomeAdvantage {
+  const overall: HomeAdvantageRecord = { country: 'All', matches: 0, wins: 0, expectedWins: 0 };
+  const byCountry = new Map<string, HomeAdvantageRecord>();
+  let missingCountry = 0;
+
+  matches.filter(wasPlayed).forEach(match => {
+    const host = ctx.tournamentsMap.get(match.tournamentId)?.country;
+    const winnerCountry = countryOf(match.winnerId, ctx);
+    const loserCountry = countryOf(match.loserId, ctx);
+    const winProb = derivedMap.get(match.id)?.eloWinProb;
+    if (!host || winProb === undefined) return;
+    if (!winnerCountry || !loserCountry) {
+      missingCountry++;
+      return;
+    }
+
+    const homeWon = winnerCountry === host;
+    if (homeWon === (loserCountry === host)) return;
+
+    let record = byCountry.get(host);
+    if (!record) {
+      record = { country: host, matches: 0, wins: 0, expectedWins: 0 };
+      byCountry.set(host, record);
+    }
+    const homeProb = homeWon ? winProb : 1 - winProb;
+    [record, overall].forEach(r => {
+      r.matches++;
+      if (homeWon) r.wins++;
+      r.expectedWins += homeProb;
+    });
+  });
+
+  return {
+    overall,
+    byCountry: Array.from(byCountry.values()).sort((a, b) => b.matches - a.matches),
+    missingCountry
+  };
+}
+
+/**
+ * Every nation's combined W-L by season and surface. Matches between two
+ * players of one country count as a win and a loss for it.
+ */
+export function computeNationRecords(matches: Match[], ctx: NationalityContext): NationRecord[] {
+  const records = new Map<string, NationRecord>();
+  const recordOf = (country: string) => {
+    let record = records.get(country);
+    if (!record) {
+      record = { country, ...winLoss(), byYear: {}, bySurface: {} };
+      records.set(country, record);
+    }
+    return record;
+  };
+
+  matches.filter(wasPlayed).forEach(match => {
+    const tournament = ctx.tournamentsMap.get(match.tournamentId);
+    if (!tournament) return;
+
+    ([[match.winnerId, 'wins'], [match.loserId, 'losses']] as const).forEach(([playerId, result]) => {
+      const country = countryOf(playerId, ctx);
+      if (!country) return;
+      const record = recordOf(country);
+      if (!record.byYear[tournament.year]) record.byYear[tournament.year] = winLoss();
+      if (!record.bySurface[tournament.surface]) record.bySurface[tournament.surface] = winLoss();
+      record[result]++;
+      record.byYear[tournament.year][result]++;
+      record.bySurface[tournament.surface]![result]++;
+    });
+  });
+
+  return Array.from(records.values()).sort((a, b) => b.wins + b.losses - (a.wins + a.losses));
+}
+
+/**
+ * Countries by titles and finals, with their top-100 players per season
+ */
+export function computeNationStandings(matches: Match[], ctx: NationalityContext): NationStanding[] {
+  const standings = new Map<string, NationStanding>();
+  const standingOf = (country: string) => {
+    let standing = standings.get(country);
+    if (!standing) {
+      standing = { country, titles: 0, finals: 0, top100ByYear: {} };
+      standings.set(country, standing);
+    }
+    return standing;
+  };
+
+  const top100 = new Map<string, Set<string>>(); // "country|year" -> player ids
+  matches.forEach(match => {
+    const tournament = ctx.tournamentsMap.get(match.tournamentId);
+    if (!tournament) return;
+
+    if (match.round === 'F') {
+      const winnerCountry = countryOf(match.winnerId, ctx);
+      const loserCountry = countryOf(match.loserId, ctx);
+      if (winnerCountry) {
+        standingOf(winnerCountry).titles++;
+        standingOf(winnerCountry).finals++;
+      }
+      if (loserCountry) standingOf(loserCountry).finals++;
+    }
+
+    ([[match.winnerId, match.wRank], [match.loserId, match.lRank]] as const).forEach(([playerId, rank]) => {
+      const country = countryOf(playerId, ctx);
+      if (!country || rank === undefined || rank > TOP_RANK) return;
+      const key = `${country}|${tournament.year}`;
+      if (!top100.has(key)) top100.set(key, new Set());
+      top100.get(key)!.add(playerId);
+    });
+  });
+
+  top100.forEach((players, key) => {
+    const [country, year] = key.split('|');
+    standingOf(country).top100ByYear[Number(year)] = players.size;
+  });
+
+  return Array.from(standings.values()).sort(
+    (a, b) => b.titles - a.titles || b.finals - a.finals || a.country.localeCompare(b.country)
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Betting Odds Utilities
+ * Helpers for reading a single market view out of MatchOdds
+ */
+
+import type { Bookmaker, BookOdds, MatchOdds } from '../types';
+
+/**
+ * Order in which books are trusted as "the market".
+ * Pinnacle has the lowest margin, then the Oddsportal average,
+ * then Bet365 and the exchange. Books only found in older files follow,
+ * so those years still get a single-book price. Max is a best-price
+ * aggregate, so it comes last.
+ */
+export const MARKET_BOOK_PRIORITY: Bookmaker[] = [
+  'PS', 'Avg', 'B365', 'BFE',
+  'EX', 'LB', 'SB', 'CB', 'GB', 'IW', 'UB', 'SJ', 'B&W',
+  'Max'
+];
+
+/**
+ * Get the odds of the most trusted bookmaker available for a match
+ */
+export function getMarketOdds(odds: MatchOdds | undefined | null): BookOdds | undefined {
+  if (!odds) return undefined;
+  for (const book of MARKET_BOOK_PRIORITY) {
+    const bookOdds = odds.books[book];
+    if (bookOdds) return bookOdds;
+  }
+  return undefined;
+}
+
+/**
+ * Get the market's margin-free probability that the match winner would win
+ */
+export function getMarketWinnerProb(odds: MatchOdds | undefined | null): number | undefined {
+  return getMarketOdds(odds)?.wProb;
+}
@@ -0,0 +1,71 @@
+/**
+ * Player Detail Helpers
+ * Roster fields (full name, country, hand, backhand, birthdate, height) are
+ * optional: players the roster file does not list only have their CSV name.
+ */
+
+import type { Player } from '../types';
+
+/**
+ * Year, month and day of an ISO date. Read as numbers rather than through
+ * Date, which takes "YYYY-MM-DD" as UTC midnight and shifts it a day west of UTC.
+ */
+function calendarDate(isoDate: string): [number, number, number] {
+  const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  return [year, month, day];
+}
+
+/**
+ * Age in whole years on a date (ISO string, default today), if the birthdate is known
+ */
+export function playerAge(player: Player | undefined, onDate?: string): number | undefined {
+  if (!player?.birthdate) return undefined;
+  const [birthYear, birthMonth, birthDay] = calendarDate(player.birthdate);
+  const today = new Date();
+  const [year, month, day] = onDate
+    ? calendarDate(onDate)
+    : [today.getFullYear(), today.getMonth() + 1, today.getDate()];
+  let age = year - birthYear;
+  if (month < birthMonth || (month === birthMonth && day < birthDay)) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Whether a search term matches any spelling of the player or their full name
+ */
+export function playerMatchesSearch(player: Player, searchTerm: string): boolean {
+  const term = searchTerm.toLowerCase();
+  return [player.name, ...(player.aliases ?? []), player.fullName ?? ''].some(name =>
+    name.toLowerCase().includes(term)
+  );
+}
+
+/**
+ * Full name and country shown under a name in the pickers, e.g. "Alexei Popyrin, AUS"
+ */
+export function formatPlayerIdentity(player: Player): string {
+  return [player.fullName, player.country].filter(Boolean).join(', ');
+}
+
+/**
+ * One-line roster summary for tooltips and headers, e.g.
+ * "Alexei Popyrin, AUS • Right-handed, two-handed backhand • Age 25 • 196 cm".
+ * The age is taken on `onDate` when given. Empty when the roster has nothing.
+ */
+export function formatPlayerDetails(player: Player | undefined, onDate?: string): string {
+  if (!player) return '';
+  const age = playerAge(player, onDate);
+  const style = [
+    player.hand && `${player.hand}-handed`,
+    player.backhand && `${player.backhand.toLowerCase()} backhand`
+  ].filter(Boolean).join(', ');
+
+  return [
+    formatPlayerIdentity(player),
+    style.charAt(0).toUpperCase() + style.slice(1),
+    age !== undefined ? `Age ${age}` : '',
+    player.height !== undefined ? `${player.height} cm` : ''
+  ].filter(Boolean).join(' • ');
+}
@@ -0,0 +1,160 @@
+/**
+ * Player Career Statistics
+ * Aggregates one player's matches into the records shown on the profile page
+ */
+
+import { compareMatchesChronologically } from './elo';
+import { wasPlayed } from './matchStatus';
+import { SERIES_ORDER } from './series';
+import type { Match, Tournament, Round, Surface } from '../types';
+
+export interface RecordRow {
+  key: string;
+  wins: number;
+  losses: number;
+}
+
+export interface FinalResult {
+  match: Match;
+  tournament?: Tournament;
+  won: boolean;
+}
+
+export interface RankingSnapshot {
+  date: string;
+  tournamentId: string;
+  rank?: number;
+  points?: number;
+}
+
+export interface NotableWin {
+  match: Match;
+  opponentId: string;
+  opponentRank: number;
+}
+
+export interface WinStreak {
+  length: number;
+  startDate: string;
+  endDate: string;
+  ongoing: boolean;
+}
+
+export interface PlayerProfile {
+  overall: { wins: number; losses: number };
+  byYear: RecordRow[];
+  bySurface: RecordRow[];
+  bySeries: RecordRow[];
+  byRound: RecordRow[];
+  byBestOf: RecordRow[];
+  finals: FinalResult[]; // Newest first; titles are the finals won
+  rankingHistory: RankingSnapshot[]; // One entry per tournament, oldest first
+  bestWins: NotableWin[];
+  longestStreaks: WinStreak[];
+  recentForm: Array<{ match: Match; won: boolean }>; // Newest first
+}
+
+const surfaceOrder: Surface[] = ['Hard', 'Clay', 'Grass', 'Carpet'];
+const roundOrder: Round[] = ['Q1', 'Q2', 'Q3', 'RR', '1R', '2R', '3R', '4R', 'QF', 'SF', 'F'];
+
+const BEST_WINS_LIMIT = 10;
+const STREAKS_LIMIT = 5;
+const RECENT_FORM_LIMIT = 10;
+
+export function computePlayerProfile(
+  playerId: string,
+  matches: Match[],
+  tournamentsMap: Map<string, Tournament>
+): PlayerProfile {
+  const playerMatches = matches
+    .filter(m => m.winnerId === playerId || m.loserId === playerId)
+    .sort(compareMatchesChronologically);
+
+  // Walkovers are not played matches, so they stay out of W-L records and streaks
+  const played = playerMatches.filter(wasPlayed);
+
+  const tally = (keyOf: (match: Match) => string | undefined, order?: string[]): RecordRow[] => {
+    const records = new Map<string, RecordRow>();
+    played.forEach(match => {
+      const key = keyOf(match);
+      if (key === undefined) return;
+      const record = records.get(key) ?? { key, wins: 0, losses: 0 };
+      if (match.winnerId === playerId) record.wins++;
+      else record.losses++;
+      records.set(key, record);
+    });
+    const rows = Array.from(records.values());
+    return order
+      ? rows.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+      : rows.sort((a, b) => b.key.localeCompare(a.key));
+  };
+
+  const wins = played.filter(m => m.winnerId === playerId).length;
+
+  const finals = playerMatches
+    .filter(m => m.round === 'F')
+    .map(match => ({
+      match,
+      tournament: tournamentsMap.get(match.tournamentId),
+      won: match.winnerId === playerId
+    }))
+    .reverse();
+
+  // Entry rank is fixed for a tournament, so keep the first match of each event
+  const rankingHistory: RankingSnapshot[] = [];
+  const seenTournaments = new Set<string>();
+  playerMatches.forEach(match => {
+    if (seenTournaments.has(match.tournamentId)) return;
+    seenTournaments.add(match.tournamentId);
+    const won = match.winnerId === playerId;
+    rankingHistory.push({
+      date: match.date,
+      tournamentId: match.tournamentId,
+      rank: won ? match.wRank : match.lRank,
+      points: won ? match.wPts : match.lPts
+    });
+  });
+
+  const bestWins = played
+    .filter(m => m.winnerId === playerId && m.lRank !== undefined)
+    .map(match => ({ match, opponentId: match.loserId, opponentRank: match.lRank! }))
+    .sort((a, b) => a.opponentRank - b.opponentRank || compareMatchesChronologically(b.match, a.match))
+    .slice(0, BEST_WINS_LIMIT);
+
+  const streaks: WinStreak[] = [];
+  let current: WinStreak | null = null;
+  for (const match of played) {
+    if (match.winnerId === playerId) {
+      if (current) {
+        current.length++;
+        current.endDate = match.date;
+      } else {
+        current = { length: 1, startDate: match.date, endDate: match.date, ongoing: false };
+      }
+    } else if (current) {
+      streaks.push(current);
+      current = null;
+    }
+  }
+  if (current) streaks.push({ ...current, ongoing: true });
+
+  return {
+    overall: { wins, losses: played.length - wins },
+    // Season of the tournament, so late-December starts count towards the next year
+    byYear: tally(m => String(tournamentsMap.get(m.tournamentId)?.year ?? m.date.slice(0, 4))),
+    bySurface: tally(m => tournamentsMap.get(m.tournamentId)?.surface, surfaceOrder),
+    bySeries: tally(m => tournamentsMap.get(m.tournamentId)?.series, SERIES_ORDER),
+    byRound: tally(m => m.round, roundOrder),
+    byBestOf: tally(m => `Best of ${m.bestOf}`, ['Best of 3', 'Best of 5']),
+    finals,
+    rankingHistory,
+    bestWins,
+    longestStreaks: streaks
+      .sort((a, b) => b.length - a.length || b.endDate.localeCompare(a.endDate))
+      .slice(0, STREAKS_LIMIT),
+    recentForm: played
+      .slice(-RECENT_FORM_LIMIT)
+      .reverse()
+      .map(match => ({ match, won: match.winnerId === playerId }))
+  };
+}
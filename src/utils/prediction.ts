@@ -0,0 +1,298 @@
+/**
+ * Match Prediction Model
+ * Logistic win-probability model built from entry ranking, ranking points,
+ * recent form and surface history. Player state is always taken from matches
+ * played before the prediction date, so historical predictions never see the result.
+ */
+
+import { compareMatchesChronologically } from './elo';
+import { wasPlayed } from './matchStatus';
+import type { Match, Tournament, Surface, Series, Tour } from '../types';
+
+// Matches the coefficients below are fitted on (npm run fit-model). Pages that
+// score the model leave this window out so their numbers are out of sample.
+export const MODEL_FIT_WINDOW = { from: '2021-01-01', to: '2022-12-31' };
+
+// Logistic coefficients fitted on MODEL_FIT_WINDOW main-draw matches (features are A minus B).
+// Rank largely duplicates points, so its weight ends up small.
+const COEFFICIENTS = {
+  rank: -0.049,
+  points: 0.573,
+  form: 0.918,
+  surface: 1.135
+};
+
+// Favourites convert more often over five sets, so the logit is stretched
+const BEST_OF_5_SCALE = 1.56;
+
+// Number of most recent matches that count as "recent form"
+const FORM_WINDOW = 10;
+
+// Stand-in entry rank/points for players without a ranking
+const UNRANKED_RANK = 500;
+const UNRANKED_POINTS = 1;
+
+export interface PlayerState {
+  rank?: number;
+  points?: number;
+  recent: boolean[]; // Last FORM_WINDOW results, oldest first
+  surfaces: Partial<Record<Surface, { wins: number; total: number }>>;
+}
+
+export interface PredictionFeatures {
+  rank: number; // ln(rankB) - ln(rankA)
+  points: number; // ln(pointsA) - ln(pointsB)
+  form: number; // Smoothed recent win rate A - B
+  surface: number; // Smoothed surface win rate A - B
+}
+
+export interface PredictionInput {
+  playerAId: string;
+  playerBId: string;
+  surface: Surface;
+  series: Series;
+  tour: Tour;
+  date: string; // ISO date; only matches before this date are used
+  bestOf?: 3 | 5; // Defaults to 5 for men's Grand Slams, 3 otherwise
+}
+
+export interface MatchPrediction {
+  probability: number; // Probability that player A wins
+  bestOf: 3 | 5;
+  features: PredictionFeatures;
+}
+
+export interface SetScoreOutcome {
+  aSets: number;
+  bSets: number;
+  probability: number;
+}
+
+export interface HistoricalPrediction {
+  matchId: string;
+  date: string;
+  playerAId: string;
+  playerBId: string;
+  probability: number; // Model probability that player A wins
+  aWon: boolean;
+  features: PredictionFeatures;
+  bestOf: 3 | 5;
+}
+
+export function createPlayerState(): PlayerState {
+  return { recent: [], surfaces: {} };
+}
+
+/**
+ * Record a played match in a player's state (mutates the state)
+ */
+export function updatePlayerState(
+  state: PlayerState,
+  won: boolean,
+  surface: Surface | undefined,
+  rank: number | undefined,
+  points: number | undefined
+): void {
+  if (rank !== undefined) state.rank = rank;
+  if (points !== undefined) state.points = points;
+
+  state.recent.push(won);
+  if (state.recent.length > FORM_WINDOW) state.recent.shift();
+
+  if (surface) {
+    const record = state.surfaces[surface] ?? { wins: 0, total: 0 };
+    state.surfaces[surface] = { wins: record.wins + (won ? 1 : 0), total: record.total + 1 };
+  }
+}
+
+export function computeFeatures(a: PlayerState, b: PlayerState, surface: Surface): PredictionFeatures {
+  const formRate = (s: PlayerState) => (s.recent.filter(Boolean).length + 1) / (s.recent.length + 2);
+  const surfaceRate = (s: PlayerState) => {
+    const record = s.surfaces[surface] ?? { wins: 0, total: 0 };
+    return (record.wins + 2) / (record.total + 4);
+  };
+
+  return {
+    rank: Math.log(b.rank ?? UNRANKED_RANK) - Math.log(a.rank ?? UNRANKED_RANK),
+    points: Math.log(a.points ?? UNRANKED_POINTS) - Math.log(b.points ?? UNRANKED_POINTS),
+    form: formRate(a) - formRate(b),
+    surface: surfaceRate(a) - surfaceRate(b)
+  };
+}
+
+export function winProbability(features: PredictionFeatures, bestOf: 3 | 5): number {
+  const logit =
+    COEFFICIENTS.rank * features.rank +
+    COEFFICIENTS.points * features.points +
+    COEFFICIENTS.form * features.form +
+    COEFFICIENTS.surface * features.surface;
+  const scaled = bestOf === 5 ? logit * BEST_OF_5_SCALE : logit;
+  return 1 / (1 + Math.exp(-scaled));
+}
+
+export function defaultBestOf(series: Series, tour: Tour): 3 | 5 {
+  return tour === 'ATP' && series === 'Grand Slam' ? 5 : 3;
+}
+
+/**
+ * Distribution of final set scores when every set is won with `setProb`,
+ * A's wins first (e.g. 2-0, 2-1, 1-2, 0-2)
+ */
+function setScoresFromSetProb(setProb: number, bestOf: 3 | 5): SetScoreOutcome[] {
+  const setsToWin = Math.ceil(bestOf / 2);
+
+  // The winner takes the last set, so the loser's sets fall among the ones before it
+  const binomial = (n: number, k: number) => {
+    let result = 1;
+    for (let i = 1; i <= k; i++) result = (result * (n - k + i)) / i;
+    return result;
+  };
+  const outcome = (p: number, lost: number) =>
+    binomial(setsToWin - 1 + lost, lost) * Math.pow(p, setsToWin) * Math.pow(1 - p, lost);
+
+  const aWins = Array.from({ length: setsToWin }, (_, lost) => ({
+    aSets: setsToWin,
+    bSets: lost,
+    probability: outcome(setProb, lost)
+  }));
+  const bWins = Array.from({ length: setsToWin }, (_, lost) => ({
+    aSets: lost,
+    bSets: setsToWin,
+    probability: outcome(1 - setProb, lost)
+  })).reverse();
+
+  return [...aWins, ...bWins];
+}
+
+/**
+ * Per-set win probability that reproduces a given match win probability
+ */
+export function impliedSetProbability(matchProb: number, bestOf: 3 | 5): number {
+  const matchProbFromSetProb = (setProb: number) =>
+    setScoresFromSetProb(setProb, bestOf)
+      .filter(outcome => outcome.aSets > outcome.bSets)
+      .reduce((sum, outcome) => sum + outcome.probability, 0);
+
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (matchProbFromSetProb(mid) < matchProb) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Expected set score distribution for a match win probability, treating sets as independent
+ */
+export function setScoreDistribution(matchProb: number, bestOf: 3 | 5): SetScoreOutcome[] {
+  return setScoresFromSetProb(impliedSetProbability(matchProb, bestOf), bestOf);
+}
+
+/**
+ * Build a predictor that can rate any pairing as of any date
+ */
+export function createMatchPredictor(matches: Match[], tournaments: Tournament[]) {
+  const tournamentsMap = new Map(tournaments.map(t => [t.id, t]));
+
+  // Each player's played matches in chronological order
+  const playerMatches = new Map<string, Match[]>();
+  [...matches].sort(compareMatchesChronologically).forEach(match => {
+    if (!wasPlayed(match)) return;
+    for (const playerId of [match.winnerId, match.loserId]) {
+      if (!playerMatches.has(playerId)) playerMatches.set(playerId, []);
+      playerMatches.get(playerId)!.push(match);
+    }
+  });
+
+  // Draw simulations ask for the same player/date many times
+  const stateCache = new Map<string, PlayerState>();
+
+  const playerState = (playerId: string, date: string): PlayerState => {
+    const cacheKey = `${playerId}|${date}`;
+    const cached = stateCache.get(cacheKey);
+    if (cached) return cached;
+
+    const state = createPlayerState();
+    for (const match of playerMatches.get(playerId) || []) {
+      if (match.date >= date) break;
+      const won = match.winnerId === playerId;
+      updatePlayerState(
+        state,
+        won,
+        tournamentsMap.get(match.tournamentId)?.surface,
+        won ? match.wRank : match.lRank,
+        won ? match.wPts : match.lPts
+      );
+    }
+    stateCache.set(cacheKey, state);
+    return state;
+  };
+
+  const predict = (input: PredictionInput): MatchPrediction => {
+    const bestOf = input.bestOf ?? defaultBestOf(input.series, input.tour);
+    const features = computeFeatures(
+      playerState(input.playerAId, input.date),
+      playerState(input.playerBId, input.date),
+      input.surface
+    );
+    return { probability: winProbability(features, bestOf), bestOf, features };
+  };
+
+  return { predict, playerState };
+}
+
+export type MatchPredictor = ReturnType<typeof createMatchPredictor>;
+
+/**
+ * Walk all matches chronologically and predict each one from prior data only.
+ * Player A is the player with the alphabetically smaller id, so the
+ * prediction is not tied to who won.
+ */
+export function predictHistoricalMatches(matches: Match[], tournaments: Tournament[]): HistoricalPrediction[] {
+  const tournamentsMap = new Map(tournaments.map(t => [t.id, t]));
+  const states = new Map<string, PlayerState>();
+  const getState = (playerId: string) => {
+    if (!states.has(playerId)) states.set(playerId, createPlayerState());
+    return states.get(playerId)!;
+  };
+
+  const predictions: HistoricalPrediction[] = [];
+
+  [...matches].sort(compareMatchesChronologically).forEach(match => {
+    if (!wasPlayed(match)) return;
+    const surface = tournamentsMap.get(match.tournamentId)?.surface;
+    if (!surface) return;
+
+    const winner = getState(match.winnerId);
+    const loser = getState(match.loserId);
+
+    // Entry rankings are published before the event, so they are fair to use
+    if (match.wRank !== undefined) winner.rank = match.wRank;
+    if (match.wPts !== undefined) winner.points = match.wPts;
+    if (match.lRank !== undefined) loser.rank = match.lRank;
+    if (match.lPts !== undefined) loser.points = match.lPts;
+
+    const aWon = match.winnerId < match.loserId;
+    const features = aWon
+      ? computeFeatures(winner, loser, surface)
+      : computeFeatures(loser, winner, surface);
+
+    predictions.push({
+      matchId: match.id,
+      date: match.date,
+      playerAId: aWon ? match.winnerId : match.loserId,
+      playerBId: aWon ? match.loserId : match.winnerId,
+      probability: winProbability(features, match.bestOf),
+      aWon,
+      features,
+      bestOf: match.bestOf
+    });
+
+    updatePlayerState(winner, true, surface, match.wRank, match.wPts);
+    updatePlayerState(loser, false, surface, match.lRank, match.lPts);
+  });
+
+  return predictions;
+}
@@ -0,0 +1,108 @@
+/**
+ * Tournament Series Helpers
+ * The ATP renamed its categories in 2009 (International Gold -> ATP500,
+ * International -> ATP250, Masters Cup -> ATP Finals), and the WTA has moved
+ * from Tier I-V to Premier/International to WTA1000/500/250. Older names are
+ * kept as their own series and ranked alongside their modern equivalents.
+ */
+
+import type { EventCategory, Series, Tour, Tournament } from '../types';
+
+/**
+ * Tier of a series, 1 (Grand Slam) to 5 (ATP250 / WTA250 and equivalents)
+ */
+export const SERIES_TIER: Record<Series, number> = {
+  'Grand Slam': 1,
+  'Masters Cup': 2,
+  'Tour Championships': 2,
+  'Masters': 3,
+  'WTA1000': 3,
+  'Premier Mandatory': 3,
+  'Premier 5': 3,
+  'Tier I': 3,
+  'ATP500': 4,
+  'International Gold': 4,
+  'WTA500': 4,
+  'Premier': 4,
+  'Tier II': 4,
+  'Elite Trophy': 4,
+  'ATP250': 5,
+  'International': 5,
+  'WTA250': 5,
+  'Tier III': 5,
+  'Tier IV': 5,
+  'Tier V': 5
+};
+
+/**
+ * Each tour's series, most prestigious first
+ */
+export const SERIES_BY_TOUR: Record<Tour, Series[]> = {
+  ATP: ['Grand Slam', 'Masters Cup', 'Masters', 'ATP500', 'International Gold', 'ATP250', 'International'],
+  WTA: [
+    'Grand Slam',
+    'Tour Championships',
+    'WTA1000',
+    'Premier Mandatory',
+    'Premier 5',
+    'Tier I',
+    'WTA500',
+    'Premier',
+    'Tier II',
+    'Elite Trophy',
+    'WTA250',
+    'International',
+    'Tier III',
+    'Tier IV',
+    'Tier V'
+  ]
+};
+
+/**
+ * Every series on either tour, most prestigious first
+ */
+export const SERIES_ORDER: Series[] = Array.from(
+  new Set([...SERIES_BY_TOUR.ATP, ...SERIES_BY_TOUR.WTA])
+).sort((a, b) => SERIES_TIER[a] - SERIES_TIER[b]);
+
+export function isSeries(value: string): value is Series {
+  return Object.prototype.hasOwnProperty.call(SERIES_TIER, value);
+}
+
+/**
+ * Series that occur among the given tournaments, most prestigious first
+ */
+export function seriesInUse(tournaments: Tournament[]): Series[] {
+  const present = new Set(tournaments.map(t => t.series));
+  return SERIES_ORDER.filter(series => present.has(series));
+}
+
+const seriesLabels: Partial<Record<Series, string>> = {
+  'Masters': 'Masters 1000',
+  'ATP500': 'ATP 500',
+  'ATP250': 'ATP 250',
+  'WTA1000': 'WTA 1000',
+  'WTA500': 'WTA 500',
+  'WTA250': 'WTA 250'
+};
+
+/**
+ * Display label for a series, e.g. "Masters 1000" for "Masters"
+ */
+export function formatSeries(series: Series): string {
+  return seriesLabels[series] ?? series;
+}
+
+/**
+ * Category history of an event, e.g. "ATP 250 2021-2024, ATP 500 since 2025"
+ */
+export function formatCategoryHistory(categories: EventCategory[]): string {
+  return categories
+    .map((category, i) => {
+      const next = categories[i + 1];
+      if (!next) return `${formatSeries(category.series)} since ${category.from}`;
+      const until = next.from - 1;
+      return `${formatSeries(category.series)} ${until === category.from ? until : `${category.from}-${until}`}`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,38 @@
+/**
+ * Tour Helpers
+ * ATP and WTA data share one set of JSON files; every page shows one tour at a time.
+ */
+
+import type { Tour, Player, Tournament, Match, Derived } from '../types';
+
+export const TOURS: Tour[] = ['ATP', 'WTA'];
+
+export function isTour(value: string): value is Tour {
+  return (TOURS as string[]).includes(value);
+}
+
+export interface TourData {
+  tournaments: Tournament[];
+  players?: Player[];
+  matches?: Match[];
+  derived?: Derived[];
+}
+
+/**
+ * Keep one tour's tournaments and players, the matches played at those
+ * tournaments and the derived rows of those matches. Data keyed by match or
+ * player id (odds, Elo history) needs no scoping: lookups only find this tour.
+ */
+export function scopeToTour(data: TourData, tour: Tour): Required<TourData> {
+  const tournaments = data.tournaments.filter(t => t.tour === tour);
+  const tournamentIds = new Set(tournaments.map(t => t.id));
+  const matches = (data.matches ?? []).filter(m => tournamentIds.has(m.tournamentId));
+  const matchIds = new Set(matches.map(m => m.id));
+
+  return {
+    tournaments,
+    players: (data.players ?? []).filter(p => p.tour === tour),
+    matches,
+    derived: (data.derived ?? []).filter(d => matchIds.has(d.matchId))
+  };
+}
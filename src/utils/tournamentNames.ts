@@ -13,4 +13,3 @@ export function getTournamentDisplayName(tournament: Tournament | undefined | nu
   if (!tournament) return 'Unknown';
   return tournament.commonName || tournament.name;
 }
-
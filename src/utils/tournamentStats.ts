@@ -0,0 +1,74 @@
+/**
+ * Tournament History Statistics
+ * Per-edition summaries for a tournament tracked across years
+ */
+
+import { wasPlayed } from './matchStatus';
+import { seedCount } from '../data/draw';
+import type { Match, Derived, Tournament } from '../types';
+
+export interface EditionSummary {
+  tournament: Tournament;
+  championId?: string;
+  finalistId?: string;
+  final?: Match;
+  fieldSize: number;
+  averageFieldRank?: number; // Mean entry rank of ranked players in the draw
+  seeds: number; // Number of seeds inferred from the draw size, as on the bracket
+  seedsBeaten: number; // Seeds who lost to an unseeded player
+  upsetRate?: number; // Share of played matches won by the lower-ranked player
+  averageGames?: number;
+  averageSets?: number;
+  matchesPlayed: number;
+}
+
+export function summarizeEdition(
+  tournament: Tournament,
+  matches: Match[],
+  derivedMap: Map<string, Derived>
+): EditionSummary {
+  const editionMatches = matches.filter(m => m.tournamentId === tournament.id);
+  const played = editionMatches.filter(wasPlayed);
+  const final = editionMatches.find(m => m.round === 'F');
+
+  // Entry rank of everyone in the draw, taken from their first appearance
+  const entryRanks = new Map<string, number | undefined>();
+  editionMatches.forEach(match => {
+    if (!entryRanks.has(match.winnerId)) entryRanks.set(match.winnerId, match.wRank);
+    if (!entryRanks.has(match.loserId)) entryRanks.set(match.loserId, match.lRank);
+  });
+
+  const rankedEntries = Array.from(entryRanks.entries())
+    .filter((entry): entry is [string, number] => entry[1] !== undefined)
+    .sort((a, b) => a[1] - b[1]);
+  const seeds = Math.min(seedCount(editionMatches), rankedEntries.length);
+  const seededIds = new Set(rankedEntries.slice(0, seeds).map(([playerId]) => playerId));
+
+  const seedsBeaten = played.filter(m => seededIds.has(m.loserId) && !seededIds.has(m.winnerId)).length;
+
+  const derivedPlayed = played
+    .map(m => derivedMap.get(m.id))
+    .filter((d): d is Derived => d !== undefined);
+  const rankedMatches = derivedPlayed.filter(d => d.upset !== undefined);
+  const withGames = derivedPlayed.filter(d => d.totalGames !== undefined);
+
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+  return {
+    tournament,
+    championId: final?.winnerId,
+    finalistId: final?.loserId,
+    final,
+    fieldSize: entryRanks.size,
+    averageFieldRank: mean(rankedEntries.map(([, rank]) => rank)),
+    seeds,
+    seedsBeaten,
+    upsetRate: rankedMatches.length > 0
+      ? rankedMatches.filter(d => d.upset).length / rankedMatches.length
+      : undefined,
+    averageGames: mean(withGames.map(d => d.totalGames!)),
+    averageSets: mean(derivedPlayed.map(d => d.setsPlayed)),
+    matchesPlayed: played.length
+  };
+}